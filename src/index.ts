@@ -6,10 +6,23 @@ export * from "./sdk";
 export { HttpClient } from "./services/httpClient";
 export type { PerpRequestConfig } from "./services/httpClient";
 export { WsClient } from "./services/wsClient";
+export { decodeWsMessage, wsDecoders } from "./services/wsMessages";
+export { WsSubscription, matchesSubscription } from "./services/wsSubscription";
+export { OrderBookStore } from "./services/orderBookStore";
+export type {
+  CumulativeOrderBookEntry,
+  OrderBookChangeEvent,
+  OrderBookFrameMode,
+  OrderBookResyncEvent,
+  OrderBookResyncReason,
+  OrderBookStoreOptions,
+} from "./services/orderBookStore";
 export * from "./types";
 export * from "./utils";
 export * from "./constants";
 export * from "./solana";
+export * from "./trading";
+export * from "./strategies";
 export {
   SuiGrpcCompatClient,
   createSuiGrpcClient,
@@ -28,10 +28,13 @@ import {
 } from "../constants";
 import { HttpClient, PerpRequestConfig } from "../services/httpClient";
 import { WsClient } from "../services/wsClient";
+import { channelOf, isWsPayload } from "../services/wsPayloads";
 import {
   AccountInfo,
   AccountInfoResponse,
   AdjustLeverageParams,
+  BatchOptions,
+  BatchResult,
   AnnouncementItem,
   ApiAccount,
   ApiResponse,
@@ -41,11 +44,17 @@ import {
   CancelTpSlOrdersParams,
   ChainBalances,
   ChainKind,
+  ClientOrderLookup,
+  ClientOrderRecord,
   CloseOnChainPositionParams,
   CreateApiAccountParams,
   CreateVaultByManagerParams,
   CreateVaultParams,
   DipCoinPerpSDKOptions,
+  ExecutionEstimate,
+  FlattenAllParams,
+  FlattenAllResult,
+  FlattenSymbolReport,
   FundingRateChartPoint,
   FundingRateDetail,
   FundingRateHistoryItem,
@@ -56,6 +65,7 @@ import {
   KlineQueryParams,
   LatestPrice,
   MarginAdjustmentParams,
+  MarketSpec,
   NoticeItem,
   OnChainPosition,
   OneClickTradingCredentials,
@@ -63,9 +73,12 @@ import {
   OpenOrdersResponse,
   OrderBook,
   OrderBookEntry,
+  OrderPreview,
   OrderResponse,
   OrderSide,
   OrderType,
+  OrderValidationIssue,
+  OrderValidationResult,
   Paginated,
   PaginatedQuery,
   PlaceOrderParams,
@@ -74,6 +87,10 @@ import {
   Position,
   PositionTpSlOrder,
   PositionsResponse,
+  ReplaceOrderParams,
+  ReplaceOrderResult,
+  ScaledOrderParams,
+  ScaledOrdersResult,
   SDKResponse,
   SolanaDepositParams,
   SolanaDepositResult,
@@ -83,6 +100,7 @@ import {
   SponsorSubmitResponse,
   SubAccountAuthParams,
   Ticker,
+  TimeInForce,
   TpSlMode,
   TpSlOrderConfig,
   TradingPair,
@@ -109,6 +127,8 @@ import {
   VaultUpdateSharePriceParams,
   VaultWithdrawParams,
   VolumesSummary,
+  WsAuth,
+  WsAuthContext,
   WsClientOptions,
 } from "../types";
 import {
@@ -116,7 +136,10 @@ import {
   formatError,
   formatNormalToWei,
   formatNormalToWeiBN,
+  formatWeiToNormal,
   fromExportedKeypair,
+  getJwtExpiry,
+  mapWithConcurrency,
   readFile,
   signMessage,
 } from "../utils";
@@ -138,6 +161,40 @@ import {
   waitSolanaCctpWithdraw,
   type CctpNetwork,
 } from "../solana";
+import {
+  executeTwap as startTwap,
+  executeVwap as startVwap,
+  IcebergOptions,
+  IcebergOrder,
+  IcebergParams,
+  PeggedOrder,
+  PeggedOrderOptions,
+  PeggedOrderParams,
+  SlicedExecution,
+  SlicedExecutionParams,
+  VwapParams,
+} from "../strategies";
+import {
+  bookCoversQuantity,
+  buildScaledLevels,
+  ClientOrderRegistry,
+  computeProtectivePrice,
+  estimateExecutionFromBook,
+  extractOrderHash,
+  formatValidationIssues,
+  generateClientOrderId,
+  mergeMarketSpec,
+  parseDeploymentMarkets,
+  processKlineBar,
+  processOrderBookEntries,
+  processTickerData,
+  resolveMaxSlippage,
+  RiskCalculator,
+  resolveTimeInForce,
+  validateOrderAgainstSpec,
+  validatePriceAgainstSpec,
+  validateQuantityAgainstSpec,
+} from "../trading";
 
 /**
  * Validity window for signed margin payloads (salt → expiration), matching
@@ -145,6 +202,22 @@ import {
  */
 const MARGIN_PAYLOAD_EXPIRATION_MS = 30 * 60 * 1000;
 
+/** How long a `getTradingPairs()` result is reused for market resolution. */
+const TRADING_PAIRS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** Default number of in-flight requests for `placeOrders` / `cancelOrders`. */
+const DEFAULT_BATCH_CONCURRENCY = 5;
+
+/** History pages (100 orders each) scanned for a clientId unknown to this instance. */
+const CLIENT_ORDER_HISTORY_PAGES = 5;
+
+/** Refresh the JWT before a WS (re)connect when it expires within this window. */
+const WS_JWT_REFRESH_MARGIN_MS = 60 * 1000;
+
+/** WS close codes / reasons the gateway uses when it drops a connection for its credentials. */
+const WS_AUTH_CLOSE_CODES = [1008, 4001, 4003, 4401, 4403];
+const WS_AUTH_CLOSE_REASON = /expired|unauthori[sz]ed|invalid token|auth/i;
+
 /**
  * DipCoin Perpetual Trading SDK
  */
@@ -169,6 +242,13 @@ export class DipCoinPerpSDK {
   private oneClickTrading?: OneClickTradingCredentials;
   /** Optional explicit sub-account keypair (used when oneCT signs trades). */
   private oneClickTradingKeypair?: Keypair;
+  /**
+   * SDK-managed WS clients (see {@link createWsClient}) with their credential
+   * resolver; refreshed when the JWT or 1CT credentials change.
+   */
+  private managedWsClients = new Map<WsClient, (context?: WsAuthContext) => Promise<WsAuth>>();
+  /** In-flight JWT refresh triggered by an expired token on a WS connection */
+  private wsJwtRefresh?: Promise<SDKResponse<string>>;
 
   /** Chain the SDK signs for ("sui" | "solana"). */
   private chain: ChainKind;
@@ -180,6 +260,14 @@ export class DipCoinPerpSDK {
   private solanaAddress?: string;
   /** Solana RPC connection (only set when chain === "solana"). */
   private solanaConnection?: Connection;
+  /** Lazily parsed `markets.<symbol>.Config` blocks of the deployment config. */
+  private deploymentMarketSpecs?: Record<string, MarketSpec>;
+  /** Cached `getTradingPairs()` result used for symbol → PerpetualID lookups. */
+  private tradingPairsCache?: { pairs: TradingPair[]; fetchedAt: number };
+  /** Last order salt handed out; salts are strictly increasing per SDK instance. */
+  private lastOrderSalt = 0;
+  /** Local clientId → order hash map for orders placed by this instance. */
+  private clientOrders = new ClientOrderRegistry();
   /**
    * On-chain Sui-format identity. For Sui this equals `walletAddress`; for
    * Solana it is the blake2b-derived unified address used to read the Bank /
@@ -334,6 +422,7 @@ export class DipCoinPerpSDK {
         this.jwtToken = response.data.token;
         this.httpClient.setAuthToken(this.jwtToken);
         this.isAuthenticating = false;
+        this.refreshManagedWsAuth();
         return {
           status: true,
           data: this.jwtToken,
@@ -392,6 +481,7 @@ export class DipCoinPerpSDK {
     if (!credentials) {
       this.oneClickTrading = undefined;
       this.oneClickTradingKeypair = undefined;
+      this.refreshManagedWsAuth();
       return;
     }
     this.oneClickTrading = credentials;
@@ -405,6 +495,7 @@ export class DipCoinPerpSDK {
     } else {
       this.oneClickTradingKeypair = undefined;
     }
+    this.refreshManagedWsAuth();
   }
 
   /** Returns the active 1CT credentials, if configured. */
@@ -667,6 +758,28 @@ export class DipCoinPerpSDK {
         throw new Error("Price is required for LIMIT orders");
       }
 
+      // Slippage-protected MARKET orders become IOC LIMIT orders at a
+      // protective price derived from the mark / oracle price.
+      if (params.maxSlippage && params.orderType === OrderType.MARKET) {
+        const protectedOrder = await this.applySlippageProtection(params);
+        if (!protectedOrder.status || !protectedOrder.data) {
+          return { status: false, error: protectedOrder.error };
+        }
+        params = protectedOrder.data;
+      }
+
+      // Pre-flight validation against the market spec (tick / step size, trade
+      // limits, leverage cap), snapping values when `rounding` allows it.
+      const preflight = await this.preflightOrder(params);
+      if (preflight.issues.length > 0) {
+        return {
+          status: false,
+          error: formatValidationIssues(preflight.issues),
+          validationErrors: preflight.issues,
+        };
+      }
+      params = preflight.params;
+
       const {
         symbol,
         side,
@@ -674,9 +787,7 @@ export class DipCoinPerpSDK {
         quantity,
         price,
         leverage,
-        market,
         reduceOnly = false,
-        clientId = "",
         tpTriggerPrice,
         tpOrderType = OrderType.MARKET,
         tpOrderPrice = "",
@@ -685,11 +796,20 @@ export class DipCoinPerpSDK {
         slOrderPrice = "",
       } = params;
 
-      // Validate market parameter - it must be a PerpetualID, not a symbol
-      if (!market) {
-        throw new Error(
-          "Market (PerpetualID) is required. Please provide the market parameter with the PerpetualID for the trading pair."
-        );
+      // Resolve the market (PerpetualID) from the symbol, rejecting a supplied
+      // `market` that belongs to a different trading pair.
+      const market = await this.resolveMarketId(symbol, params.market);
+      // Every order carries a client order ID so it can be looked up later
+      const clientId = params.clientId || generateClientOrderId();
+
+      // Map time in force onto the signed order flags. FOK has no backend
+      // equivalent: it is sent as IOC once visible depth covers the full size.
+      const tif = resolveTimeInForce(params.timeInForce, orderType, params.expiration);
+      if (tif.requiresFullFill) {
+        const fillable = await this.isFullyFillable(symbol, side, quantity, orderType, price);
+        if (!fillable.status) {
+          return { status: false, error: fillable.error };
+        }
       }
 
       // Convert to BigNumber for calculations
@@ -697,8 +817,10 @@ export class DipCoinPerpSDK {
       const priceBN = price && price !== "" ? formatNormalToWeiBN(price) : new BigNumber(0);
       const quantityBN = formatNormalToWeiBN(quantity);
       const leverageBN = formatNormalToWeiBN(leverage);
+      // Plan (TP/SL) orders never expire; only the main order carries the GTD expiry
       const expirationBN = new BigNumber(0);
-      const saltBN = new BigNumber(+new Date());
+      const orderExpirationBN = new BigNumber(tif.expiration);
+      const saltBN = this.nextOrderSalt();
 
       // Resolve action signing context (main wallet or 1CT sub-account).
       const actionUrl = API_ENDPOINTS.PLACE_ORDER;
@@ -721,13 +843,13 @@ export class DipCoinPerpSDK {
         creator: orderCreator,
         isLong: side === OrderSide.BUY,
         reduceOnly,
-        postOnly: false,
+        postOnly: tif.postOnly,
         orderbookOnly: true,
-        ioc: false,
+        ioc: tif.ioc,
         quantity: quantityBN,
         price: orderType === OrderType.LIMIT ? priceBN : new BigNumber(0),
         leverage: leverageBN,
-        expiration: expirationBN,
+        expiration: orderExpirationBN,
         salt: saltBN,
       };
 
@@ -735,7 +857,7 @@ export class DipCoinPerpSDK {
       let tpOrder = null;
       let tpSalt = null;
       if (tpTriggerPrice) {
-        tpSalt = new BigNumber(Date.now() + 1);
+        tpSalt = this.nextOrderSalt();
         tpOrder = {
           market: order.market,
           creator: orderCreator,
@@ -759,7 +881,7 @@ export class DipCoinPerpSDK {
       let slOrder = null;
       let slSalt = null;
       if (slTriggerPrice) {
-        slSalt = new BigNumber(Date.now() + 2);
+        slSalt = this.nextOrderSalt();
         slOrder = {
           market: order.market,
           creator: orderCreator,
@@ -816,6 +938,10 @@ export class DipCoinPerpSDK {
         creator: orderCreator,
         clientId,
         reduceOnly, // Will be sent as boolean in JSON
+        postOnly: tif.postOnly,
+        ioc: tif.ioc,
+        expiration: orderExpirationBN.toString(),
+        timeInForce: params.timeInForce ?? "GTC",
         orderSignature,
       };
       if (params.parentAddress) {
@@ -868,9 +994,10 @@ export class DipCoinPerpSDK {
             requestOverride
           );
           if (retryResponse.code === 200) {
+            this.trackClientOrder(clientId, symbol, retryResponse, params.parentAddress);
             return {
               status: true,
-              data: retryResponse,
+              data: { ...retryResponse, clientId },
             };
           }
         }
@@ -881,15 +1008,16 @@ export class DipCoinPerpSDK {
       }
 
       if (response.code === 200) {
+        this.trackClientOrder(clientId, symbol, response, params.parentAddress);
         return {
           status: true,
-          data: response,
+          data: { ...response, clientId },
         };
       } else {
         return {
           status: false,
           error: response.message || "Order failed",
-          data: response,
+          data: { ...response, clientId },
         };
       }
     } catch (error) {
@@ -900,6 +1028,506 @@ export class DipCoinPerpSDK {
     }
   }
 
+  /**
+   * Place several orders. Authenticates once, then signs and submits the
+   * orders with bounded concurrency. Every order gets a unique salt, so
+   * orders signed within the same millisecond do not collide.
+   * @param params Orders to place
+   * @param options `concurrency` (default 5)
+   * @returns Per-order responses in input order plus a summary; `status` is
+   *   true only when every order succeeded
+   * @example
+   * ```typescript
+   * const res = await sdk.placeOrders([buyParams, sellParams], { concurrency: 3 });
+   * res.data?.results.forEach((r, i) => console.log(i, r.status, r.error));
+   * ```
+   */
+  async placeOrders(
+    params: PlaceOrderParams[],
+    options: BatchOptions = {}
+  ): Promise<SDKResponse<BatchResult<OrderResponse>>> {
+    const authResult = await this.authenticate();
+    if (!authResult.status) {
+      return this.buildBatchResponse(
+        params.map(() => ({
+          status: false,
+          error: authResult.error || "Authentication failed",
+        }))
+      );
+    }
+    // Warm the shared trading pairs cache so concurrent orders reuse one fetch
+    await this.getCachedTradingPairs();
+
+    const results = await mapWithConcurrency(
+      params,
+      options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+      (order) => this.placeOrder(order)
+    );
+    return this.buildBatchResponse(results);
+  }
+
+  /**
+   * Place a ladder of LIMIT orders between `priceFrom` and `priceTo`. Prices
+   * are evenly spaced and snapped to `tickSize`; `totalQuantity` is split by
+   * `distribution` and snapped to `stepSize`. Orders go through
+   * {@link placeOrders}, so each gets its own salt and client order ID.
+   * @param params Ladder definition
+   * @param options Batch options (`concurrency`)
+   * @returns The computed levels plus per-order results in level order
+   * @example
+   * ```typescript
+   * const res = await sdk.placeScaledOrders({
+   *   symbol: "BTC-PERP", side: OrderSide.BUY, totalQuantity: "1",
+   *   priceFrom: "95000", priceTo: "90000", count: 5,
+   *   distribution: "geometric", ratio: 1.5, leverage: 5,
+   * });
+   * res.data?.levels.forEach((l) => console.log(l.price, l.quantity));
+   * ```
+   */
+  async placeScaledOrders(
+    params: ScaledOrderParams,
+    options: BatchOptions = {}
+  ): Promise<SDKResponse<ScaledOrdersResult>> {
+    try {
+      const specResult = await this.getMarketSpec(params.symbol);
+      if (!specResult.status || !specResult.data) {
+        return { status: false, error: specResult.error || "Market spec not found" };
+      }
+      const levels = buildScaledLevels(params, specResult.data);
+      const batch = await this.placeOrders(
+        levels.map((level) => ({
+          symbol: params.symbol,
+          side: params.side,
+          orderType: OrderType.LIMIT,
+          price: level.price,
+          quantity: level.quantity,
+          leverage: params.leverage,
+          reduceOnly: params.reduceOnly,
+          timeInForce: params.timeInForce,
+          parentAddress: params.parentAddress,
+        })),
+        options
+      );
+      return {
+        status: batch.status,
+        error: batch.error,
+        data: batch.data && { ...batch.data, levels },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /**
+   * Allocate a strictly increasing order salt (ms timestamp, bumped by one
+   * when several orders are signed within the same millisecond).
+   */
+  private nextOrderSalt(): BigNumber {
+    const now = Date.now();
+    this.lastOrderSalt = now > this.lastOrderSalt ? now : this.lastOrderSalt + 1;
+    return new BigNumber(this.lastOrderSalt);
+  }
+
+  /** Wrap per-item batch responses with a summary. */
+  private buildBatchResponse<T>(results: SDKResponse<T>[]): SDKResponse<BatchResult<T>> {
+    const succeeded = results.filter((r) => r.status).length;
+    const failed = results.length - succeeded;
+    return {
+      status: failed === 0,
+      data: { results, summary: { total: results.length, succeeded, failed } },
+      error: failed > 0 ? `${failed} of ${results.length} requests failed` : undefined,
+    };
+  }
+
+  /**
+   * Execute a parent order as a TWAP: `slices` equal child MARKET orders
+   * spread over `durationMs`. Returns a handle that can be paused, resumed
+   * or cancelled and reports fill progress.
+   * @example
+   * ```typescript
+   * const twap = sdk.executeTwap({
+   *   symbol: "BTC-PERP", side: OrderSide.BUY, totalQuantity: "2",
+   *   durationMs: 10 * 60 * 1000, slices: 20, leverage: 5, maxSlippageBps: 15,
+   * });
+   * twap.onProgress((p) => console.log(`${p.filledQuantity}/${p.totalQuantity} @ ${p.averagePrice}`));
+   * const result = await twap.done;
+   * ```
+   */
+  executeTwap(params: SlicedExecutionParams): SlicedExecution {
+    return startTwap(this, params);
+  }
+
+  /**
+   * Execute a parent order as a VWAP: slices follow the volume profile of
+   * the same window on the previous day, optionally capped by
+   * `maxParticipation`. See {@link executeTwap} for the returned handle.
+   */
+  executeVwap(params: VwapParams): SlicedExecution {
+    return startVwap(this, params);
+  }
+
+  /**
+   * Place an iceberg order: a small LIMIT child (randomized between
+   * `minDisplayQuantity` and `maxDisplayQuantity`) rests at `price` and is
+   * replenished from the hidden remainder after each fill. Resolves once the
+   * first child is placed; `cancel()` on the returned handle removes the
+   * resting child.
+   * @example
+   * ```typescript
+   * const result = await sdk.placeIcebergOrder(
+   *   { symbol: "BTC-PERP", side: OrderSide.SELL, price: "98000", totalQuantity: "3",
+   *     minDisplayQuantity: "0.1", maxDisplayQuantity: "0.3", leverage: 5 },
+   *   { wsUrl: "wss://ws.dipcoin.io/v1" }
+   * );
+   * result.data?.onDone((state) => console.log(state.status, state.averagePrice));
+   * ```
+   */
+  async placeIcebergOrder(
+    params: IcebergParams,
+    options?: IcebergOptions
+  ): Promise<SDKResponse<IcebergOrder>> {
+    try {
+      const iceberg = new IcebergOrder(this, params, options);
+      const started = await iceberg.start();
+      if (!started.status) {
+        return { status: false, error: started.error || "Failed to start iceberg order" };
+      }
+      return { status: true, data: iceberg };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /**
+   * Place a LIMIT order pegged to the best bid / ask (or mid) plus `offset`.
+   * The order follows a local `OrderBookStore` with cancel / re-place
+   * (rate limited by `minRepriceIntervalMs`, capped at `maxChasePrice`) and,
+   * after `timeoutMs`, sends the remainder as a MARKET order. Resolves once
+   * the first order is placed.
+   * @example
+   * ```typescript
+   * const result = await sdk.placePeggedOrder(
+   *   { symbol: "BTC-PERP", side: OrderSide.BUY, quantity: "0.5", leverage: 5,
+   *     maxChasePrice: "96000", timeoutMs: 60_000, timeoutMaxSlippage: 0.005 },
+   *   { wsUrl: "wss://ws.dipcoin.io/v1" }
+   * );
+   * result.data?.onDone((state) => console.log(state.status, state.averagePrice));
+   * ```
+   */
+  async placePeggedOrder(
+    params: PeggedOrderParams,
+    options: PeggedOrderOptions = {}
+  ): Promise<SDKResponse<PeggedOrder>> {
+    try {
+      const pegged = new PeggedOrder(this, params, options);
+      const started = await pegged.start();
+      if (!started.status) {
+        return { status: false, error: started.error || "Failed to start pegged order" };
+      }
+      return { status: true, data: pegged };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /**
+   * Convert a MARKET order with `maxSlippage` into an IOC LIMIT order at the
+   * protective price, refusing it when visible depth cannot fill the full
+   * quantity within tolerance.
+   */
+  private async applySlippageProtection(
+    params: PlaceOrderParams
+  ): Promise<SDKResponse<PlaceOrderParams>> {
+    try {
+      const maxSlippage = resolveMaxSlippage(params.maxSlippage as number | true);
+      const reference = params.slippageReference ?? "mark";
+      let referenceWei: string | undefined;
+      if (reference === "oracle") {
+        const oracle = await this.getOraclePrice(params.symbol);
+        if (!oracle.status) {
+          return { status: false, error: `Failed to get oracle price: ${oracle.error}` };
+        }
+        referenceWei = oracle.data;
+      } else {
+        const ticker = await this.getTicker(params.symbol);
+        if (!ticker.status || !ticker.data) {
+          return { status: false, error: `Failed to get mark price: ${ticker.error}` };
+        }
+        referenceWei = ticker.data.markPrice || ticker.data.midPrice;
+      }
+      if (!referenceWei || new BigNumber(referenceWei).lte(0)) {
+        return { status: false, error: `No ${reference} price available for ${params.symbol}` };
+      }
+
+      // Ticker / oracle / order book values are in wei
+      const spec = await this.getMarketSpec(params.symbol);
+      const price = computeProtectivePrice(
+        this.formatWeiToNormal(referenceWei),
+        params.side,
+        maxSlippage,
+        spec.data?.tickSize
+      );
+
+      const fillable = await this.isFullyFillable(
+        params.symbol,
+        params.side,
+        params.quantity,
+        OrderType.LIMIT,
+        price
+      );
+      if (!fillable.status) {
+        return {
+          status: false,
+          error: `Slippage protection: visible depth cannot fill ${params.quantity} within ${
+            maxSlippage * 100
+          }% of the ${reference} price (limit ${price})`,
+        };
+      }
+
+      return {
+        status: true,
+        data: { ...params, orderType: OrderType.LIMIT, price, timeInForce: "IOC" },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /**
+   * Fill-or-kill emulation: check the visible opposite side of the order book
+   * can fill `quantity` in full (within `price` for LIMIT orders).
+   */
+  private async isFullyFillable(
+    symbol: string,
+    side: OrderSide,
+    quantity: number | string,
+    orderType: OrderType,
+    price?: number | string
+  ): Promise<SDKResponse<boolean>> {
+    const bookResult = await this.getOrderBook(symbol);
+    if (!bookResult.status || !bookResult.data) {
+      return {
+        status: false,
+        error: `FOK order rejected: ${bookResult.error || "order book unavailable"}`,
+      };
+    }
+    // Order book levels are in wei
+    const levels = side === OrderSide.BUY ? bookResult.data.asks : bookResult.data.bids;
+    const limitWei = orderType === OrderType.LIMIT && price ? formatNormalToWei(price) : undefined;
+    if (!bookCoversQuantity(levels, side, formatNormalToWei(quantity), limitWei)) {
+      return {
+        status: false,
+        error: "FOK order rejected: visible order book depth cannot fill the full quantity",
+      };
+    }
+    return { status: true, data: true };
+  }
+
+  /**
+   * Validate an order against its market spec without submitting it.
+   * Returns the (optionally rounded) quantity / price and any issues found.
+   * @param params Order parameters (`rounding` defaults to "reject")
+   */
+  async validateOrder(params: PlaceOrderParams): Promise<SDKResponse<OrderValidationResult>> {
+    const specResult = await this.getMarketSpec(params.symbol);
+    if (!specResult.status || !specResult.data) {
+      return { status: false, error: specResult.error || "Market spec not found" };
+    }
+    const result = validateOrderAgainstSpec(params, specResult.data, params.rounding);
+    return { status: true, data: result };
+  }
+
+  /**
+   * Preview an order before sending it: required initial margin and fee,
+   * resulting position and liquidation price, and the maximum openable size
+   * given the account's free collateral. Combines {@link RiskCalculator} with
+   * live account, position and book data. MARKET orders are priced from
+   * {@link estimateExecution} (falling back to the mark price); leverage
+   * defaults to the user's preferred leverage from {@link getUserConfig}.
+   * @param params Order parameters (normal units)
+   */
+  async previewOrder(params: PlaceOrderParams): Promise<SDKResponse<OrderPreview>> {
+    try {
+      const { symbol, side, orderType, quantity, parentAddress } = params;
+      const specResult = await this.getMarketSpec(symbol);
+      if (!specResult.status || !specResult.data) {
+        return { status: false, error: specResult.error || "Market spec not found" };
+      }
+
+      let price = orderType === OrderType.LIMIT ? params.price : undefined;
+      if (!price) {
+        const estimate = await this.estimateExecution(symbol, side, quantity);
+        price = estimate.data?.averagePrice;
+        if (!price) {
+          const ticker = await this.getTicker(symbol);
+          const markWei = ticker.data?.markPrice || ticker.data?.midPrice;
+          price = markWei ? this.formatWeiToNormal(markWei) : undefined;
+        }
+      }
+      if (!price || new BigNumber(price).lte(0)) {
+        return { status: false, error: `No price available to preview ${symbol}` };
+      }
+
+      let leverage: number | string | undefined = params.leverage;
+      if (!leverage) {
+        const config = await this.getUserConfig(symbol);
+        leverage = config.data?.leverage || specResult.data.defaultLeverage;
+      }
+      if (!leverage) {
+        return { status: false, error: "leverage is required" };
+      }
+
+      // Account and position values are returned in wei
+      const [account, positions] = await Promise.all([
+        this.getAccountInfo(parentAddress),
+        this.getPositions(symbol, parentAddress),
+      ]);
+      if (!account.status || !account.data) {
+        return { status: false, error: account.error || "Failed to get account info" };
+      }
+      const current = positions.data?.find(
+        (p) => p.symbol === symbol && !new BigNumber(p.quantity || 0).isZero()
+      );
+
+      const preview = new RiskCalculator(specResult.data).preview({
+        side,
+        quantity,
+        price,
+        leverage,
+        freeCollateral: this.formatWeiToNormal(account.data.freeCollateral),
+        isMarket: orderType === OrderType.MARKET,
+        position: current
+          ? {
+              isLong: current.isLong,
+              quantity: this.formatWeiToNormal(current.quantity),
+              entryPrice: this.formatWeiToNormal(current.avgEntryPrice),
+              margin: this.formatWeiToNormal(current.margin),
+            }
+          : undefined,
+      });
+      return { status: true, data: preview };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /**
+   * Run pre-flight validation for {@link placeOrder}. Skipped when the symbol
+   * has no market spec (the backend stays the source of truth).
+   */
+  private async preflightOrder(
+    params: PlaceOrderParams
+  ): Promise<{ params: PlaceOrderParams; issues: OrderValidationIssue[] }> {
+    const specResult = await this.getMarketSpec(params.symbol);
+    if (!specResult.status || !specResult.data) {
+      return { params, issues: [] };
+    }
+    const spec = specResult.data;
+    const rounding = params.rounding ?? "reject";
+    const result = validateOrderAgainstSpec(params, spec, rounding);
+    const issues = [...result.issues];
+    const next: PlaceOrderParams = { ...params, quantity: result.quantity };
+    if (params.orderType === OrderType.LIMIT) {
+      next.price = result.price;
+    }
+    for (const field of [
+      "tpTriggerPrice",
+      "tpOrderPrice",
+      "slTriggerPrice",
+      "slOrderPrice",
+    ] as const) {
+      const value = params[field];
+      if (value === undefined || value === null || value === "") continue;
+      const checked = validatePriceAgainstSpec(field, value, spec, rounding);
+      next[field] = checked.value;
+      issues.push(...checked.issues);
+    }
+    return { params: next, issues };
+  }
+
+  /**
+   * Run pre-flight validation for {@link placePositionTpSlOrders} on the
+   * position quantity and the TP/SL trigger / order prices and quantities.
+   */
+  private async preflightTpSlOrders(
+    params: PlaceTpSlOrdersParams
+  ): Promise<{ params: PlaceTpSlOrdersParams; issues: OrderValidationIssue[] }> {
+    const specResult = await this.getMarketSpec(params.symbol);
+    if (!specResult.status || !specResult.data) {
+      return { params, issues: [] };
+    }
+    const spec = specResult.data;
+    const rounding = params.rounding ?? "reject";
+    const issues: OrderValidationIssue[] = [];
+    const quantity = validateQuantityAgainstSpec(
+      "quantity",
+      params.quantity,
+      spec,
+      params.tp?.orderType || params.sl?.orderType || OrderType.MARKET,
+      rounding
+    );
+    issues.push(...quantity.issues);
+    const checkConfig = (prefix: "tp" | "sl", config?: TpSlOrderConfig) => {
+      if (!config || !this.isPositiveNumber(config.triggerPrice)) return config;
+      const orderType = config.orderType || OrderType.MARKET;
+      const next: TpSlOrderConfig = { ...config };
+      const trigger = validatePriceAgainstSpec(
+        `${prefix}.triggerPrice`,
+        config.triggerPrice,
+        spec,
+        rounding
+      );
+      next.triggerPrice = trigger.value;
+      issues.push(...trigger.issues);
+      if (orderType === OrderType.LIMIT && this.isPositiveNumber(config.orderPrice)) {
+        const price = validatePriceAgainstSpec(
+          `${prefix}.orderPrice`,
+          config.orderPrice as number | string,
+          spec,
+          rounding
+        );
+        next.orderPrice = price.value;
+        issues.push(...price.issues);
+      }
+      if (config.quantity !== undefined) {
+        const qty = validateQuantityAgainstSpec(
+          `${prefix}.quantity`,
+          config.quantity,
+          spec,
+          orderType,
+          rounding
+        );
+        next.quantity = qty.value;
+        issues.push(...qty.issues);
+      }
+      return next;
+    };
+    return {
+      params: {
+        ...params,
+        quantity: quantity.value,
+        tp: checkConfig("tp", params.tp),
+        sl: checkConfig("sl", params.sl),
+      },
+      issues,
+    };
+  }
+
   /**
    * Cancel an order
    * @param params Cancel order parameters
@@ -959,42 +1587,457 @@ export class DipCoinPerpSDK {
         requestOverride
       );
 
-      // Handle JWT expiration
-      if (response.code === 1000) {
-        this.clearAuth();
-        const retryAuth = await this.authenticate();
-        if (retryAuth.status) {
-          // Retry the request
-          const retryResponse = await this.httpClient.post<OrderResponse>(
-            API_ENDPOINTS.CANCEL_ORDER,
-            requestParams,
-            requestOverride
-          );
-          if (retryResponse.code === 200) {
-            return {
-              status: true,
-              data: retryResponse,
-            };
-          }
-        }
+      // Handle JWT expiration
+      if (response.code === 1000) {
+        this.clearAuth();
+        const retryAuth = await this.authenticate();
+        if (retryAuth.status) {
+          // Retry the request
+          const retryResponse = await this.httpClient.post<OrderResponse>(
+            API_ENDPOINTS.CANCEL_ORDER,
+            requestParams,
+            requestOverride
+          );
+          if (retryResponse.code === 200) {
+            return {
+              status: true,
+              data: retryResponse,
+            };
+          }
+        }
+        return {
+          status: false,
+          error: "Authentication expired and refresh failed",
+        };
+      }
+
+      if (response.code === 200) {
+        return {
+          status: true,
+          data: response,
+        };
+      } else {
+        return {
+          status: false,
+          error: response.message || "Cancellation Failed",
+          data: response,
+        };
+      }
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /**
+   * Cancel orders across several symbols / accounts. Authenticates once and
+   * sends one cancel request per entry with bounded concurrency.
+   * @param params One cancel request per symbol (and parent account)
+   * @param options `concurrency` (default 5)
+   * @returns Per-request responses in input order plus a summary
+   */
+  async cancelOrders(
+    params: CancelOrderParams[],
+    options: BatchOptions = {}
+  ): Promise<SDKResponse<BatchResult<OrderResponse>>> {
+    const authResult = await this.authenticate();
+    if (!authResult.status) {
+      return this.buildBatchResponse(
+        params.map(() => ({
+          status: false,
+          error: authResult.error || "Authentication failed",
+        }))
+      );
+    }
+    const results = await mapWithConcurrency(
+      params,
+      options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+      (cancel) => this.cancelOrder(cancel)
+    );
+    return this.buildBatchResponse(results);
+  }
+
+  /**
+   * Emergency flatten: cancel every open order and TP/SL plan, then close
+   * every position with a reduce-only MARKET order. Works for the wallet,
+   * a vault / sub-account (`parentAddress`) and 1CT sessions (requests are
+   * routed like {@link cancelOrder} / {@link placeOrder}). Symbols are
+   * processed independently, so one failure does not stop the rest.
+   * @param params Optional `parentAddress`, `symbols` filter and `maxSlippage`
+   * @returns Per-symbol report; `status` is true only when every step succeeded
+   * @example
+   * ```typescript
+   * const res = await sdk.flattenAll({ maxSlippage: 0.02 });
+   * res.data?.reports.filter((r) => !r.success).forEach((r) => console.error(r.symbol, r.errors));
+   * ```
+   */
+  async flattenAll(params: FlattenAllParams = {}): Promise<SDKResponse<FlattenAllResult>> {
+    try {
+      const { parentAddress } = params;
+      const authResult = await this.authenticate();
+      if (!authResult.status) {
+        return { status: false, error: authResult.error || "Authentication failed" };
+      }
+      const [openOrders, positions] = await Promise.all([
+        this.getOpenOrders(undefined, parentAddress),
+        this.getPositions(undefined, parentAddress),
+      ]);
+      if (!openOrders.status) {
+        return { status: false, error: `Failed to get open orders: ${openOrders.error}` };
+      }
+      if (!positions.status) {
+        return { status: false, error: `Failed to get positions: ${positions.error}` };
+      }
+
+      const wanted = params.symbols ? new Set(params.symbols) : undefined;
+      const ordersBySymbol = new Map<string, OpenOrder[]>();
+      for (const order of openOrders.data ?? []) {
+        if (wanted && !wanted.has(order.symbol)) continue;
+        ordersBySymbol.set(order.symbol, [...(ordersBySymbol.get(order.symbol) ?? []), order]);
+      }
+      const positionsBySymbol = new Map<string, Position>();
+      for (const position of positions.data ?? []) {
+        if (wanted && !wanted.has(position.symbol)) continue;
+        if (new BigNumber(position.quantity || 0).isZero()) continue;
+        positionsBySymbol.set(position.symbol, position);
+      }
+      const symbols = Array.from(new Set([...ordersBySymbol.keys(), ...positionsBySymbol.keys()]));
+
+      const reports = await mapWithConcurrency(
+        symbols,
+        params.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+        (symbol) =>
+          this.flattenSymbol(
+            symbol,
+            ordersBySymbol.get(symbol) ?? [],
+            positionsBySymbol.get(symbol),
+            params
+          )
+      );
+      const succeeded = reports.filter((r) => r.success).length;
+      const failed = reports.length - succeeded;
+      return {
+        status: failed === 0,
+        data: { reports, summary: { total: reports.length, succeeded, failed } },
+        error:
+          failed > 0 ? `Failed to fully flatten ${failed} of ${reports.length} symbols` : undefined,
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /** Cancel orders and plans of one symbol, then close its position. */
+  private async flattenSymbol(
+    symbol: string,
+    orders: OpenOrder[],
+    position: Position | undefined,
+    params: FlattenAllParams
+  ): Promise<FlattenSymbolReport> {
+    const { parentAddress } = params;
+    const report: FlattenSymbolReport = {
+      symbol,
+      cancelledOrders: [],
+      cancelledPlans: [],
+      errors: [],
+      success: false,
+    };
+
+    const orderHashes = orders.map((o) => o.hash).filter(Boolean);
+    if (orderHashes.length > 0) {
+      const cancelled = await this.cancelOrder({ symbol, orderHashes, parentAddress });
+      if (cancelled.status) {
+        report.cancelledOrders = orderHashes;
+      } else {
+        report.errors.push(`Cancel orders: ${cancelled.error}`);
+      }
+    }
+
+    const positionId = position?.id ?? position?.positionId;
+    if (positionId !== undefined) {
+      const plans = new Map<string, CancelPlanOrderParams>();
+      for (const mode of ["normal", "position"] as TpSlMode[]) {
+        const result = await this.getPositionTpSl(positionId, mode);
+        if (!result.status) {
+          report.errors.push(`Get ${mode} TP/SL plans: ${result.error}`);
+          continue;
+        }
+        for (const plan of result.data ?? []) {
+          const ids = [plan.tpPlanId, plan.slPlanId].filter(
+            (id) => id !== undefined && id !== null
+          );
+          if (ids.length === 0 && plan.id !== undefined) ids.push(plan.id);
+          for (const planId of ids) {
+            plans.set(String(planId), { planId: planId as string | number, symbol, parentAddress });
+          }
+          if (ids.length === 0 && plan.hash) {
+            plans.set(plan.hash, { hash: plan.hash, symbol, parentAddress });
+          }
+        }
+      }
+      for (const [key, cancel] of plans) {
+        const cancelled = await this.cancelPlanOrder(cancel);
+        if (cancelled.status) {
+          report.cancelledPlans.push(key);
+        } else {
+          report.errors.push(`Cancel plan ${key}: ${cancelled.error}`);
+        }
+      }
+    }
+
+    if (position) {
+      // Position values are returned in wei
+      const quantity = new BigNumber(this.formatWeiToNormal(position.quantity)).abs().toString(10);
+      const leverage = this.formatWeiToNormal(
+        position.positionSelectedLeverage || position.leverage || "0"
+      );
+      const response = await this.placeOrder({
+        symbol,
+        side: position.isLong ? OrderSide.SELL : OrderSide.BUY,
+        orderType: OrderType.MARKET,
+        quantity,
+        leverage: new BigNumber(leverage).gt(0) ? leverage : "1",
+        reduceOnly: true,
+        parentAddress,
+        maxSlippage: params.maxSlippage,
+      });
+      report.closedPosition = { isLong: position.isLong, quantity, response };
+      if (!response.status) report.errors.push(`Close position: ${response.error}`);
+    }
+
+    report.success = report.errors.length === 0;
+    return report;
+  }
+
+  /**
+   * Replace a resting order: cancel it and re-place it with a new price and /
+   * or quantity, keeping the original side, leverage, reduce-only flag, time
+   * in force (post-only / GTD expiry), clientId and attached TP/SL. Orders
+   * whose time in force cannot be reproduced are refused before the cancel.
+   * If the replacement is rejected after the cancel went through, the
+   * original order is re-placed (rollback). Both legs go through
+   * {@link cancelOrder} / {@link placeOrder}, so 1CT routing applies.
+   * @param params Order hash and the new price / quantity
+   * @returns Per-leg outcome; `status` is true only when the replacement was placed
+   * @example
+   * ```typescript
+   * const res = await sdk.replaceOrder({ symbol: "BTC-PERP", orderHash, price: "95100" });
+   * if (!res.status && res.data?.rollback?.succeeded === false) {
+   *   console.warn("Original order cancelled and not restored");
+   * }
+   * ```
+   */
+  async replaceOrder(params: ReplaceOrderParams): Promise<SDKResponse<ReplaceOrderResult>> {
+    try {
+      const { symbol, orderHash, parentAddress } = params;
+      if (!symbol || !orderHash) {
+        throw new Error("symbol and orderHash are required");
+      }
+      if (params.price === undefined && params.quantity === undefined) {
+        throw new Error("price or quantity is required");
+      }
+
+      const open = await this.getOpenOrders(symbol, parentAddress);
+      if (!open.status) {
+        return { status: false, error: open.error || "Failed to get open orders" };
+      }
+      const originalOrder = open.data?.find(
+        (o) => o.hash?.toLowerCase() === orderHash.toLowerCase()
+      );
+      if (!originalOrder) {
+        return { status: false, error: `Open order ${orderHash} not found` };
+      }
+
+      const original = this.replayableOrderParams(originalOrder, parentAddress);
+      if (typeof original === "string") {
+        return {
+          status: false,
+          error: original,
+          data: { originalOrder, cancelled: false, placed: false },
+        };
+      }
+      const replacement: PlaceOrderParams = {
+        ...original,
+        price: params.price ?? original.price,
+        quantity: params.quantity ?? original.quantity,
+        rounding: params.rounding,
+      };
+
+      // Reject an invalid replacement before touching the resting order
+      const preflight = await this.preflightOrder(replacement);
+      if (preflight.issues.length > 0) {
         return {
           status: false,
-          error: "Authentication expired and refresh failed",
+          error: formatValidationIssues(preflight.issues),
+          validationErrors: preflight.issues,
+          data: { originalOrder, cancelled: false, placed: false },
         };
       }
 
-      if (response.code === 200) {
+      const cancelResponse = await this.cancelOrder({
+        symbol,
+        orderHashes: [originalOrder.hash],
+        parentAddress,
+      });
+      if (!cancelResponse.status) {
+        return {
+          status: false,
+          error: `Cancel failed, original order left untouched: ${cancelResponse.error}`,
+          data: { originalOrder, cancelled: false, placed: false, cancelResponse },
+        };
+      }
+
+      const placeResponse = await this.placeOrder(preflight.params);
+      if (placeResponse.status) {
         return {
           status: true,
-          data: response,
+          data: { originalOrder, cancelled: true, placed: true, cancelResponse, placeResponse },
         };
-      } else {
+      }
+
+      const rollbackResponse = await this.placeOrder(original);
+      return {
+        status: false,
+        error: rollbackResponse.status
+          ? `Replacement rejected (${placeResponse.error}); original order re-placed`
+          : `Replacement rejected (${placeResponse.error}); rollback failed (${rollbackResponse.error})`,
+        data: {
+          originalOrder,
+          cancelled: true,
+          placed: false,
+          cancelResponse,
+          placeResponse,
+          rollback: {
+            attempted: true,
+            succeeded: rollbackResponse.status,
+            response: rollbackResponse,
+          },
+        },
+      };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
+  }
+
+  /**
+   * Rebuild the {@link placeOrder} params of a resting order (unfilled
+   * remainder, flags, clientId and attached TP/SL). Returns an error message
+   * when the order's time in force cannot be reproduced.
+   */
+  private replayableOrderParams(
+    order: OpenOrder,
+    parentAddress?: string
+  ): PlaceOrderParams | string {
+    // Open orders are returned in wei
+    const toNormal = (value?: string | number) =>
+      value !== undefined && value !== null && value !== ""
+        ? this.formatWeiToNormal(value)
+        : undefined;
+    const remaining = new BigNumber(order.quantity).minus(order.filledQty || 0);
+    const expiration = Number(order.expiration) || 0;
+
+    let timeInForce: TimeInForce;
+    if (order.timeInForce) {
+      const tif = order.timeInForce.toUpperCase();
+      if (!["GTC", "POST_ONLY", "GTD"].includes(tif)) {
+        return `Cannot replace order ${order.hash}: time in force ${order.timeInForce} cannot be reproduced`;
+      }
+      timeInForce = tif as TimeInForce;
+    } else if (order.ioc) {
+      return `Cannot replace order ${order.hash}: IOC orders cannot be re-placed`;
+    } else {
+      timeInForce = order.postOnly ? "POST_ONLY" : expiration > 0 ? "GTD" : "GTC";
+    }
+    if (timeInForce === "GTD" && expiration <= 0) {
+      return `Cannot replace order ${order.hash}: GTD order has no expiration`;
+    }
+
+    const params: PlaceOrderParams = {
+      symbol: order.symbol,
+      side: order.side as OrderSide,
+      orderType: (order.orderType as OrderType) || OrderType.LIMIT,
+      price: this.formatWeiToNormal(order.price),
+      quantity: this.formatWeiToNormal(remaining.toString(10)),
+      leverage: this.formatWeiToNormal(order.leverage),
+      reduceOnly: order.reduceOnly,
+      clientId: order.clientId,
+      timeInForce,
+      expiration: timeInForce === "GTD" ? expiration : undefined,
+      parentAddress,
+    };
+    if (this.isPositiveNumber(order.tpTriggerPrice)) {
+      params.tpTriggerPrice = toNormal(order.tpTriggerPrice);
+      params.tpOrderType = (order.tpOrderType as OrderType) || OrderType.MARKET;
+      params.tpOrderPrice = toNormal(order.tpOrderPrice);
+    }
+    if (this.isPositiveNumber(order.slTriggerPrice)) {
+      params.slTriggerPrice = toNormal(order.slTriggerPrice);
+      params.slOrderType = (order.slOrderType as OrderType) || OrderType.MARKET;
+      params.slOrderPrice = toNormal(order.slOrderPrice);
+    }
+    return params;
+  }
+
+  /**
+   * Look up an order by the client order ID it was placed with. Checks the
+   * open orders first, then recent order history. Orders this SDK instance
+   * did not place (e.g. before a restart or from another process) are found
+   * through the backend `clientId` and added to the local map.
+   * @param clientId Client order ID (as passed to or returned by `placeOrder`)
+   * @param parentAddress Parent address to search when the clientId is not tracked locally
+   */
+  async getOrderByClientId(
+    clientId: string,
+    parentAddress?: string
+  ): Promise<SDKResponse<ClientOrderLookup>> {
+    try {
+      const record = this.clientOrders.get(clientId);
+      const owner = record?.parentAddress ?? parentAddress;
+      const matches = (order: { hash?: string; clientId?: string }) =>
+        order.clientId === clientId ||
+        (!!record?.orderHash && order.hash?.toLowerCase() === record.orderHash.toLowerCase());
+
+      const open = await this.getOpenOrders(record?.symbol, owner);
+      if (!open.status) {
+        return { status: false, error: open.error || "Failed to get open orders" };
+      }
+      const openOrder = open.data?.find(matches);
+      if (openOrder) {
         return {
-          status: false,
-          error: response.message || "Cancellation Failed",
-          data: response,
+          status: true,
+          data: { record: this.recordClientOrder(clientId, openOrder, owner), openOrder },
         };
       }
+
+      const historyOrder = await this.findHistoryOrder(matches, {
+        symbol: record?.symbol,
+        parentAddress: owner,
+        startTime: record ? record.createdAt - 60 * 1000 : undefined,
+        pages: record ? 1 : CLIENT_ORDER_HISTORY_PAGES,
+      });
+      if (!historyOrder.status) {
+        return { status: false, error: historyOrder.error };
+      }
+      if (!record && !historyOrder.data) {
+        return { status: false, error: `Unknown clientId: ${clientId}` };
+      }
+      return {
+        status: true,
+        data: {
+          record: historyOrder.data
+            ? this.recordClientOrder(clientId, historyOrder.data, owner)
+            : (record as ClientOrderRecord),
+          historyOrder: historyOrder.data,
+        },
+      };
     } catch (error) {
       return {
         status: false,
@@ -1003,6 +2046,112 @@ export class DipCoinPerpSDK {
     }
   }
 
+  /** Scan up to `pages` pages of order history for the first matching order. */
+  private async findHistoryOrder(
+    matches: (order: HistoryOrder) => boolean,
+    query: { symbol?: string; parentAddress?: string; startTime?: number; pages: number }
+  ): Promise<SDKResponse<HistoryOrder | undefined>> {
+    const { pages, ...filter } = query;
+    for (let pageNum = 1; pageNum <= pages; pageNum++) {
+      const history = await this.getHistoryOrders({ ...filter, pageNum, pageSize: 100 });
+      if (!history.status) {
+        return { status: false, error: history.error || "Failed to get history orders" };
+      }
+      const items = history.data?.items ?? [];
+      const found = items.find(matches);
+      if (found) return { status: true, data: found };
+      if (items.length < 100 || pageNum >= (history.data?.totalPages ?? 0)) break;
+    }
+    return { status: true, data: undefined };
+  }
+
+  /**
+   * Attach an order found on the exchange to the clientId map, creating the
+   * record when the order was placed outside this SDK instance.
+   */
+  private recordClientOrder(
+    clientId: string,
+    order: { hash?: string; symbol?: string; createdAt?: number },
+    parentAddress?: string
+  ): ClientOrderRecord {
+    const record = this.clientOrders.get(clientId);
+    if (record) {
+      if (order.hash) this.clientOrders.attachHash(clientId, order.hash);
+      return record;
+    }
+    const created: ClientOrderRecord = {
+      clientId,
+      symbol: order.symbol ?? "",
+      orderHash: order.hash,
+      parentAddress,
+      createdAt: order.createdAt ?? Date.now(),
+    };
+    this.clientOrders.register(created);
+    return created;
+  }
+
+  /**
+   * Cancel an order by its client order ID. Resolves the order hash through
+   * the local clientId map (querying open orders and history when it is not
+   * known yet).
+   * @param clientId Client order ID
+   * @param parentAddress Parent address to search when the clientId is not tracked locally
+   */
+  async cancelOrderByClientId(
+    clientId: string,
+    parentAddress?: string
+  ): Promise<SDKResponse<OrderResponse>> {
+    let record = this.clientOrders.get(clientId);
+    if (!record?.orderHash) {
+      const lookup = await this.getOrderByClientId(clientId, parentAddress);
+      if (!lookup.status) {
+        return { status: false, error: lookup.error };
+      }
+      record = lookup.data?.record ?? record;
+    }
+    if (!record?.orderHash) {
+      return { status: false, error: `No order hash known for clientId: ${clientId}` };
+    }
+    return this.cancelOrder({
+      symbol: record.symbol,
+      orderHashes: [record.orderHash],
+      parentAddress: record.parentAddress,
+    });
+  }
+
+  /** Orders placed by this SDK instance, keyed by client order ID. */
+  listClientOrders(): ClientOrderRecord[] {
+    return this.clientOrders.list();
+  }
+
+  /** Record a successfully placed order in the clientId map. */
+  private trackClientOrder(
+    clientId: string,
+    symbol: string,
+    response: OrderResponse,
+    parentAddress?: string
+  ): void {
+    this.clientOrders.register({
+      clientId,
+      symbol,
+      orderHash: extractOrderHash(response.data),
+      parentAddress,
+      createdAt: Date.now(),
+    });
+  }
+
+  /** Fill in `clientId` on orders from the local map when the backend omits it. */
+  private withClientIds<T extends { hash?: string; clientId?: string }>(orders: T[]): T[] {
+    return orders.map((order) => {
+      if (order.clientId) {
+        if (order.hash) this.clientOrders.attachHash(order.clientId, order.hash);
+        return order;
+      }
+      const clientId = this.clientOrders.getClientId(order.hash);
+      return clientId ? { ...order, clientId } : order;
+    });
+  }
+
   /**
    * Adjust preferred leverage for a symbol (matches ts-frontend behavior)
    * @param params Adjust leverage parameters
@@ -1175,26 +2324,34 @@ export class DipCoinPerpSDK {
 
       const {
         symbol,
-        market,
         side,
         isLong,
         leverage,
-        quantity,
         reduceOnly = true,
         postOnly = false,
         orderbookOnly = true,
         ioc = false,
-        tp,
-        sl,
       } = params;
 
-      if (!this.isPositiveNumber(quantity)) {
+      if (!this.isPositiveNumber(params.quantity)) {
         return {
           status: false,
           error: "Quantity must be greater than zero",
         };
       }
 
+      const market = await this.resolveMarketId(symbol, params.market);
+
+      const preflight = await this.preflightTpSlOrders(params);
+      if (preflight.issues.length > 0) {
+        return {
+          status: false,
+          error: formatValidationIssues(preflight.issues),
+          validationErrors: preflight.issues,
+        };
+      }
+      const { tp, sl, quantity } = preflight.params;
+
       const hasTpOrder = this.hasTpSlOrderConfig(tp, quantity);
       const hasSlOrder = this.hasTpSlOrderConfig(sl, quantity);
 
@@ -1208,8 +2365,8 @@ export class DipCoinPerpSDK {
       const leverageBN = formatNormalToWeiBN(leverage);
       const leverageWei = formatNormalToWei(leverage);
       const expirationBN = new BigNumber(0);
-      const saltBN = new BigNumber(+new Date());
-      const slSaltBN = saltBN.plus(1);
+      const saltBN = this.nextOrderSalt();
+      const slSaltBN = this.nextOrderSalt();
       // Unified order creator (Sui => `Sui:0x…`, Solana => `Solana:<base58>`).
       const orderCreator = this.getOrderCreator(API_ENDPOINTS.PLAN_CLOSE_ORDER);
       const planPayloadBase = {
@@ -1695,6 +2852,99 @@ export class DipCoinPerpSDK {
     }
   }
 
+  /**
+   * Trading pairs from {@link getTradingPairs}, cached for
+   * `TRADING_PAIRS_CACHE_TTL_MS`. Returns an empty list if the call fails.
+   */
+  private async getCachedTradingPairs(forceRefresh = false): Promise<TradingPair[]> {
+    const cache = this.tradingPairsCache;
+    if (!forceRefresh && cache && Date.now() - cache.fetchedAt < TRADING_PAIRS_CACHE_TTL_MS) {
+      return cache.pairs;
+    }
+    const result = await this.getTradingPairs();
+    if (!result.status || !result.data) {
+      return cache?.pairs ?? [];
+    }
+    this.tradingPairsCache = { pairs: result.data, fetchedAt: Date.now() };
+    return result.data;
+  }
+
+  /**
+   * Resolve the PerpetualID for `symbol`: local deployment config first, then
+   * the cached trading pairs. When `market` is supplied it must match the
+   * resolved id; if the symbol cannot be resolved the supplied value is used.
+   * @throws If no PerpetualID can be determined or `market` does not match `symbol`
+   */
+  private async resolveMarketId(symbol: string, market?: string): Promise<string> {
+    let resolved = this.getDeploymentPerpetualID(symbol);
+    if (!resolved) {
+      const pairs = await this.getCachedTradingPairs();
+      resolved = pairs.find((p) => p.symbol?.toUpperCase() === symbol.toUpperCase())?.perpId;
+    }
+    if (market) {
+      if (resolved && resolved.toLowerCase() !== market.toLowerCase()) {
+        throw new Error(
+          `Market ${market} does not match symbol ${symbol} (expected PerpetualID ${resolved})`
+        );
+      }
+      return market;
+    }
+    if (!resolved) {
+      throw new Error(`Failed to resolve PerpetualID for ${symbol}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Get the typed market specification (tick size, step size, trade limits,
+   * margin requirements, fees) for a symbol, in normal units. Built from the
+   * local deployment config and merged with the live trading pair.
+   * @param symbol Trading symbol (e.g., "BTC-PERP")
+   * @example
+   * ```typescript
+   * const spec = await sdk.getMarketSpec("BTC-PERP");
+   * if (spec.status && spec.data) {
+   *   console.log("Tick:", spec.data.tickSize, "Step:", spec.data.stepSize);
+   * }
+   * ```
+   */
+  async getMarketSpec(symbol: string): Promise<SDKResponse<MarketSpec>> {
+    if (!symbol) return { status: false, error: "symbol is required" };
+    const result = await this.listMarketSpecs();
+    if (!result.status || !result.data) {
+      return { status: false, error: result.error || "Failed to load market specs" };
+    }
+    const spec = result.data.find((s) => s.symbol.toUpperCase() === symbol.toUpperCase());
+    if (!spec) {
+      return { status: false, error: `No market config found for ${symbol}` };
+    }
+    return { status: true, data: spec };
+  }
+
+  /**
+   * List the typed market specifications of every market in the deployment
+   * config, merged with the live trading pairs from {@link getTradingPairs}.
+   * The live data is best-effort: if the market list cannot be loaded, the
+   * deployment values are returned without `pair` / `maxLeverage`.
+   */
+  async listMarketSpecs(): Promise<SDKResponse<MarketSpec[]>> {
+    try {
+      if (!this.deploymentMarketSpecs) {
+        this.deploymentMarketSpecs = parseDeploymentMarkets(this.deploymentConfig);
+      }
+      const pairs = await this.getCachedTradingPairs();
+      const specs = Object.values(this.deploymentMarketSpecs).map((spec) =>
+        mergeMarketSpec(
+          spec,
+          pairs.find((p) => p.symbol?.toUpperCase() === spec.symbol.toUpperCase())
+        )
+      );
+      return { status: true, data: specs };
+    } catch (error) {
+      return { status: false, error: formatError(error) };
+    }
+  }
+
   /**
    * Get open orders
    * @param symbol Optional symbol filter
@@ -1742,7 +2992,7 @@ export class DipCoinPerpSDK {
               : retryResponse.data?.data || [];
             return {
               status: true,
-              data: orders,
+              data: this.withClientIds(orders),
             };
           }
         }
@@ -1756,7 +3006,7 @@ export class DipCoinPerpSDK {
         const orders = Array.isArray(response.data) ? response.data : response.data?.data || [];
         return {
           status: true,
-          data: orders,
+          data: this.withClientIds(orders),
         };
       } else {
         return {
@@ -1828,8 +3078,8 @@ export class DipCoinPerpSDK {
 
         // Process bids and asks from array format to OrderBookEntry format
         // Match ts-frontend: processOrderBookEntries converts [price, quantity, orderNum] to {price, quantity}
-        const bids = this.processOrderBookEntries(rawData.bids, "bids");
-        const asks = this.processOrderBookEntries(rawData.asks, "asks");
+        const bids = processOrderBookEntries(rawData.bids, "bids");
+        const asks = processOrderBookEntries(rawData.asks, "asks");
 
         const orderBook: OrderBook = {
           symbol,
@@ -1857,71 +3107,52 @@ export class DipCoinPerpSDK {
   }
 
   /**
-   * Process order book entries from API format to OrderBookEntry format
-   * Match ts-frontend: processOrderBookEntries method
-   * @param entries Raw entries from API (array of [price, quantity, orderNum] or objects)
-   * @param side "bids" or "asks"
-   * @returns Processed OrderBookEntry array
+   * Estimate the execution of a taker order against the current order book:
+   * average and worst fill price, slippage versus mid, unfilled remainder and
+   * the taker fee from the market's `defaultTakerFee`. Values are in normal units.
+   * Fails when the market spec (and so the fee rate) cannot be loaded.
+   * @param symbol Trading symbol (e.g., "BTC-PERP")
+   * @param side Order side
+   * @param quantity Order size (normal units)
+   * @example
+   * ```typescript
+   * const est = await sdk.estimateExecution("BTC-PERP", OrderSide.BUY, "2");
+   * console.log(est.data?.averagePrice, est.data?.slippageBps, est.data?.takerFee);
+   * ```
    */
-  private processOrderBookEntries(entries: any[], side: "bids" | "asks"): OrderBookEntry[] {
-    if (!Array.isArray(entries)) {
-      return [];
-    }
-
-    return entries
-      .filter((entry) => {
-        // Check if it's array format [price, quantity, orderNum]
-        if (Array.isArray(entry) && entry.length >= 2) {
-          const [price, quantity] = entry;
-          return (
-            price &&
-            quantity &&
-            !isNaN(parseFloat(String(price))) &&
-            !isNaN(parseFloat(String(quantity))) &&
-            parseFloat(String(quantity)) > 0
-          );
-        }
-        // Check if it's object format {price, quantity}
-        if (entry && entry.price && entry.quantity) {
-          return (
-            !isNaN(parseFloat(String(entry.price))) &&
-            !isNaN(parseFloat(String(entry.quantity))) &&
-            parseFloat(String(entry.quantity)) > 0
-          );
-        }
-        return false;
-      })
-      .map((entry) => {
-        let price: string, quantity: string;
-
-        // Handle array format [price, quantity, orderNum]
-        if (Array.isArray(entry) && entry.length >= 2) {
-          [price, quantity] = entry;
-        } else {
-          // Handle object format {price, quantity}
-          price = entry.price;
-          quantity = entry.quantity;
-        }
-
-        // Keep wei format - no conversion
-        return {
-          price: String(price),
-          quantity: String(quantity),
-        };
-      })
-      .sort((a, b) => {
-        const priceA = parseFloat(a.price);
-        const priceB = parseFloat(b.price);
-
-        // Bids: sort descending (highest price first)
-        // Asks: sort ascending (lowest price first)
-        // Match ts-frontend: bids descending, asks ascending
-        if (side === "bids") {
-          return priceB - priceA; // Descending for bids
-        } else {
-          return priceA - priceB; // Ascending for asks
-        }
-      });
+  async estimateExecution(
+    symbol: string,
+    side: OrderSide,
+    quantity: number | string
+  ): Promise<SDKResponse<ExecutionEstimate>> {
+    try {
+      const bookResult = await this.getOrderBook(symbol);
+      if (!bookResult.status || !bookResult.data) {
+        return { status: false, error: bookResult.error || "Failed to get order book" };
+      }
+      // Order book levels are in wei; the estimator works in normal units
+      const toNormal = (levels: OrderBookEntry[]) =>
+        levels.map((l) => ({
+          price: this.formatWeiToNormal(l.price),
+          quantity: this.formatWeiToNormal(l.quantity),
+        }));
+      const book: OrderBook = {
+        bids: toNormal(bookResult.data.bids),
+        asks: toNormal(bookResult.data.asks),
+      };
+      // Without the spec the taker fee is unknown, so fail rather than report 0
+      const spec = await this.getMarketSpec(symbol);
+      if (!spec.status || !spec.data) {
+        return { status: false, error: spec.error || `Market spec not found for ${symbol}` };
+      }
+      const estimate = estimateExecutionFromBook(book, side, quantity, spec.data.defaultTakerFee);
+      return { status: true, data: { symbol, ...estimate } };
+    } catch (error) {
+      return {
+        status: false,
+        error: formatError(error),
+      };
+    }
   }
 
   /**
@@ -1932,16 +3163,7 @@ export class DipCoinPerpSDK {
    * @returns Formatted string in normal units
    */
   private formatWeiToNormal(value: number | string, decimals = 18): string {
-    try {
-      const bn = new BigNumber(value);
-      if (bn.isNaN() || bn.isZero()) {
-        return "0";
-      }
-      return bn.dividedBy(new BigNumber(10).pow(decimals)).toString();
-    } catch (error) {
-      console.error("Error converting wei to normal:", error);
-      return "0";
-    }
+    return formatWeiToNormal(value, decimals);
   }
 
   /**
@@ -2000,7 +3222,7 @@ export class DipCoinPerpSDK {
 
         // Process ticker data: convert wei to normal units
         // Match ts-frontend: transformerTicker function
-        const ticker = this.processTickerData(rawData);
+        const ticker = processTickerData(rawData);
 
         return {
           status: true,
@@ -2092,83 +3314,6 @@ export class DipCoinPerpSDK {
     }
   }
 
-  /**
-   * Process ticker data from API format to Ticker format
-   * Keep all values in wei format - no conversion
-   * @param rawData Raw ticker data from API
-   * @returns Processed Ticker object
-   */
-  private processTickerData(rawData: any): Ticker {
-    // Calculate mid price from best bid and ask
-    // Calculate using wei values, keep in wei format
-    let midPrice: string | undefined;
-    if (rawData.bestAskPrice && rawData.bestBidPrice) {
-      // Both exist: calculate average in wei
-      const askPriceBN = new BigNumber(rawData.bestAskPrice);
-      const bidPriceBN = new BigNumber(rawData.bestBidPrice);
-      const midPriceBN = askPriceBN.plus(bidPriceBN).dividedBy(2);
-      midPrice = midPriceBN.toString();
-    } else if (rawData.bestAskPrice) {
-      midPrice = String(rawData.bestAskPrice);
-    } else if (rawData.bestBidPrice) {
-      midPrice = String(rawData.bestBidPrice);
-    } else {
-      midPrice = "0";
-    }
-
-    // Build ticker object - keep all values in wei format
-    const ticker: Ticker = {
-      symbol: rawData.symbol,
-      lastPrice: String(rawData.lastPrice || "0"),
-      high24h: String(rawData.high24h || "0"),
-      low24h: String(rawData.low24h || "0"),
-      amount24h: String(rawData.amount24h || "0"),
-      volume24h: String(rawData.volume24h || "0"),
-      midPrice,
-      timestamp: rawData.timestamp || Date.now(),
-    };
-
-    // Optional fields - keep in wei format
-    if (rawData.markPrice) {
-      ticker.markPrice = String(rawData.markPrice);
-    }
-    if (rawData.bestAskPrice) {
-      ticker.bestAskPrice = String(rawData.bestAskPrice);
-    }
-    if (rawData.bestBidPrice) {
-      ticker.bestBidPrice = String(rawData.bestBidPrice);
-    }
-    if (rawData.bestAskAmount) {
-      ticker.bestAskAmount = String(rawData.bestAskAmount);
-    }
-    if (rawData.bestBidAmount) {
-      ticker.bestBidAmount = String(rawData.bestBidAmount);
-    }
-    if (rawData.open24h) {
-      ticker.open24h = String(rawData.open24h);
-    }
-    if (rawData.change24h) {
-      ticker.change24h = String(rawData.change24h);
-    }
-    if (rawData.rate24h) {
-      ticker.rate24h = String(rawData.rate24h);
-    }
-    if (rawData.openPrice) {
-      ticker.openPrice = String(rawData.openPrice);
-    }
-    if (rawData.oraclePrice) {
-      ticker.oraclePrice = String(rawData.oraclePrice);
-    }
-    if (rawData.fundingRate) {
-      ticker.fundingRate = String(rawData.fundingRate);
-    }
-    if (rawData.openInterest) {
-      ticker.openInterest = String(rawData.openInterest);
-    }
-
-    return ticker;
-  }
-
   /**
    * Add isolated margin to an existing position (on-chain)
    * @param params Margin adjustment parameters
@@ -2866,27 +4011,7 @@ export class DipCoinPerpSDK {
         }),
       (resp) => {
         const raw: any[] = Array.isArray(resp.data) ? resp.data : resp.data?.data || [];
-        const bars: KlineBar[] = raw.map((row: any) => {
-          if (Array.isArray(row)) {
-            const [time, open, high, low, close, volume] = row;
-            return {
-              time: Number(time ?? 0),
-              open: this.formatWeiToNormal(open ?? "0"),
-              high: this.formatWeiToNormal(high ?? "0"),
-              low: this.formatWeiToNormal(low ?? "0"),
-              close: this.formatWeiToNormal(close ?? "0"),
-              volume: this.formatWeiToNormal(volume ?? "0"),
-            };
-          }
-          return {
-            time: Number(row.time ?? row.timestamp ?? 0),
-            open: this.formatWeiToNormal(row.open ?? "0"),
-            high: this.formatWeiToNormal(row.high ?? "0"),
-            low: this.formatWeiToNormal(row.low ?? "0"),
-            close: this.formatWeiToNormal(row.close ?? "0"),
-            volume: this.formatWeiToNormal(row.volume ?? "0"),
-          };
-        });
+        const bars: KlineBar[] = raw.map(processKlineBar);
         return { status: true, data: bars };
       },
       "Failed to load kline"
@@ -2934,6 +4059,7 @@ export class DipCoinPerpSDK {
       query,
       (raw) => ({
         ...raw,
+        clientId: raw.clientId || this.clientOrders.getClientId(raw.hash),
         quantity: this.formatWeiToNormal(raw.quantity ?? "0"),
         filledQty: raw.filledQty ? this.formatWeiToNormal(raw.filledQty) : undefined,
         avgPrice: raw.avgPrice ? this.formatWeiToNormal(raw.avgPrice) : undefined,
@@ -4357,7 +5483,8 @@ export class DipCoinPerpSDK {
 
   /**
    * Close an on-chain position (full or partial) by sending an order with
-   * `reduceOnly = true`. This is a convenience wrapper around `placeOrder`.
+   * `reduceOnly = true`. This is a convenience wrapper around `placeOrder`;
+   * pass `maxSlippage` to bound the fill price.
    */
   async closeOnChainPosition(
     params: CloseOnChainPositionParams
@@ -4369,22 +5496,17 @@ export class DipCoinPerpSDK {
     }
     const pos = posResult.data;
     const closingSide = pos.isLong ? OrderSide.SELL : OrderSide.BUY;
-    const market =
-      this.resolvePerpIdFromDeployment(params.symbol.toUpperCase()) ||
-      (await this.getPerpetualID(params.symbol)) ||
-      "";
-    if (!market) {
-      return { status: false, error: `Failed to resolve PerpetualID for ${params.symbol}` };
-    }
     const qty = params.quantity ?? pos.quantity;
+    // `market` is resolved from the symbol inside placeOrder.
     return this.placeOrder({
       symbol: params.symbol,
       side: closingSide,
       orderType: OrderType.MARKET,
       quantity: qty,
       leverage: pos.leverage || "1",
-      market,
       reduceOnly: true,
+      maxSlippage: params.maxSlippage,
+      slippageReference: params.slippageReference,
     });
   }
 
@@ -4539,19 +5661,109 @@ export class DipCoinPerpSDK {
   // =======================================================================
 
   /**
-   * Construct a {@link WsClient} pre-configured with the SDK's JWT and wallet
-   * address (for private channels). The caller is responsible for calling
-   * `connect()` and `subscribe()` on the returned client.
+   * Construct a {@link WsClient} authenticated with the SDK's credentials (for
+   * private channels). The caller is responsible for calling `connect()` and
+   * `subscribe()` on the returned client.
+   *
+   * Unless `authToken` is passed explicitly the client is SDK-managed: the
+   * current JWT is pulled (re-running `authenticate()` when it was cleared)
+   * before every (re)connect, and the client reconnects and re-subscribes
+   * when the JWT is refreshed or, with `useOneClickTrading`, when the 1CT
+   * credentials change. A frame with `code: 1000` (expired JWT) triggers a
+   * refresh, and so does a reconnect when the cached JWT expires within a
+   * minute or the previous connection was closed with an auth close code.
    */
   createWsClient(
     options: Omit<WsClientOptions, "authToken" | "walletAddress"> &
-      Partial<Pick<WsClientOptions, "authToken" | "walletAddress">>
+      Partial<Pick<WsClientOptions, "authToken" | "walletAddress">> & {
+        /** Authenticate with the 1CT sub-account JWT / address while configured */
+        useOneClickTrading?: boolean;
+      }
   ): WsClient {
-    return new WsClient({
-      ...options,
-      authToken: options.authToken ?? this.jwtToken,
-      walletAddress: options.walletAddress ?? this.walletAddress,
+    const { useOneClickTrading, ...wsOptions } = options;
+    const transform = wsOptions.transformMessage;
+    const managed = wsOptions.authToken === undefined && !wsOptions.resolveAuth;
+    const resolveAuth = async (context: WsAuthContext = {}): Promise<WsAuth> => {
+      if (useOneClickTrading && this.oneClickTrading) {
+        return { authToken: this.oneClickTrading.jwt, walletAddress: this.oneClickTrading.address };
+      }
+      // Public channels still work when authentication fails
+      const auth = this.wsNeedsFreshJwt(context)
+        ? await this.refreshWsJwt()
+        : await this.authenticate();
+      return {
+        authToken: auth.status ? auth.data : undefined,
+        walletAddress: wsOptions.walletAddress ?? this.walletAddress,
+      };
+    };
+    const client: WsClient = new WsClient({
+      ...wsOptions,
+      authToken: wsOptions.authToken ?? this.jwtToken,
+      walletAddress: wsOptions.walletAddress ?? this.walletAddress,
+      resolveAuth: managed
+        ? async (context) => {
+            this.managedWsClients.set(client, resolveAuth);
+            return resolveAuth(context);
+          }
+        : wsOptions.resolveAuth,
+      // Order updates carry the clientId from the local clientId map
+      transformMessage: (msg) => {
+        const expired = isWsPayload(msg) && msg.code === 1000;
+        if (managed && expired && !this.wsJwtRefresh) void this.refreshWsJwt();
+        return this.attachClientIdToWsMessage(transform ? transform(msg) : msg);
+      },
     });
+    if (managed) {
+      client.onStateChange(({ state }) => {
+        if (state === "closed" || state === "failed") this.managedWsClients.delete(client);
+      });
+    }
+    return client;
+  }
+
+  /**
+   * Whether a managed WS client must not reuse the cached JWT: it expires
+   * within {@link WS_JWT_REFRESH_MARGIN_MS}, or the server closed the previous
+   * connection for its credentials.
+   */
+  private wsNeedsFreshJwt(context: WsAuthContext): boolean {
+    if (context.closeCode !== undefined && WS_AUTH_CLOSE_CODES.includes(context.closeCode)) {
+      return true;
+    }
+    if (context.closeReason && WS_AUTH_CLOSE_REASON.test(context.closeReason)) return true;
+    if (!this.jwtToken) return false;
+    const expiry = getJwtExpiry(this.jwtToken);
+    return expiry !== undefined && expiry - Date.now() < WS_JWT_REFRESH_MARGIN_MS;
+  }
+
+  /** Force a JWT refresh, shared by all managed WS clients. */
+  private refreshWsJwt(): Promise<SDKResponse<string>> {
+    if (!this.wsJwtRefresh) {
+      this.wsJwtRefresh = this.getJWTToken(true).finally(() => {
+        this.wsJwtRefresh = undefined;
+      });
+    }
+    return this.wsJwtRefresh;
+  }
+
+  /** Push the current credentials to the SDK-managed WS clients. */
+  private refreshManagedWsAuth(): void {
+    for (const [client, resolveAuth] of this.managedWsClients) {
+      resolveAuth()
+        .then((auth) => client.refreshAuth(auth.authToken, auth.walletAddress))
+        .catch((error) => console.warn("Failed to refresh WS credentials:", error));
+    }
+  }
+
+  /** Fill in `clientId` on `order` channel updates for orders placed by this instance. */
+  private attachClientIdToWsMessage(msg: unknown): unknown {
+    if (channelOf(msg) !== "order" || !isWsPayload(msg) || !isWsPayload(msg.data)) return msg;
+    // Order payloads carry the same hash / clientId fields as OpenOrder
+    const orders = (Array.isArray(msg.data) ? msg.data : [msg.data]) as OpenOrder[];
+    const data = Array.isArray(msg.data)
+      ? this.withClientIds(orders)
+      : this.withClientIds(orders)[0];
+    return { ...msg, data };
   }
 
   // =======================================================================
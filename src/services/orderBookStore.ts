@@ -0,0 +1,398 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Locally maintained order book: seeded from `getOrderBook`, kept current by
+ * the `orderBook` WS channel and re-snapshotted when a sequence gap or a
+ * crossed book shows it drifted. Levels keep the wei format of the REST book
+ * and the ordering of `processOrderBookEntries` (bids descending, asks
+ * ascending).
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import { Listeners } from "../utils/listeners";
+import { OrderBook, OrderBookEntry } from "../types";
+import { formatError } from "../utils";
+import type { WsClient } from "./wsClient";
+import type { WsSubscription } from "./wsSubscription";
+import { WsPayload, isWsPayload, payloadsOf } from "./wsPayloads";
+
+/**
+ * How `orderBook` frames are applied. `auto` replaces the book on frames
+ * flagged as snapshots (`type` / `action` of `snapshot`, `partial` or `full`)
+ * and merges every other frame as a delta.
+ */
+export type OrderBookFrameMode = "auto" | "snapshot" | "delta";
+
+export interface OrderBookStoreOptions {
+  symbol: string;
+  /** Existing WS client to share (caller owns its connection) */
+  ws?: WsClient;
+  /** WS URL used to create an SDK-authenticated client when `ws` is omitted */
+  wsUrl?: string;
+  /** Frame handling (default `auto`) */
+  frameMode?: OrderBookFrameMode;
+  /** Re-snapshot from REST periodically in ms, on top of gap detection (default off) */
+  resyncIntervalMs?: number;
+}
+
+/** Level with the running total from the top of the book, in wei. */
+export interface CumulativeOrderBookEntry extends OrderBookEntry {
+  cumulativeQuantity: string;
+}
+
+export type OrderBookResyncReason = "start" | "gap" | "crossed" | "interval" | "manual";
+
+export interface OrderBookChangeEvent {
+  symbol: string;
+  /** `snapshot` after a REST / WS snapshot, `delta` after an incremental update */
+  source: "snapshot" | "delta";
+  bestBid?: OrderBookEntry;
+  bestAsk?: OrderBookEntry;
+  /** Last applied WS sequence number, when the gateway sends one */
+  sequence?: number;
+}
+
+export interface OrderBookResyncEvent {
+  symbol: string;
+  reason: OrderBookResyncReason;
+}
+
+const SNAPSHOT_FRAME_TYPES = ["snapshot", "partial", "full"];
+
+/**
+ * One side of the book keyed by normalized price. The sorted view is rebuilt
+ * lazily after a change.
+ */
+class BookSide {
+  private levels = new Map<string, string>();
+  private sorted?: OrderBookEntry[];
+
+  constructor(private side: "bids" | "asks") {}
+
+  replace(entries: OrderBookEntry[]): void {
+    this.levels.clear();
+    for (const entry of entries) this.set(entry.price, entry.quantity);
+    this.sorted = undefined;
+  }
+
+  /** Set a level; a zero quantity removes it. */
+  set(price: string, quantity: string): void {
+    const key = new BigNumber(price).toString(10);
+    if (new BigNumber(quantity).gt(0)) this.levels.set(key, new BigNumber(quantity).toString(10));
+    else this.levels.delete(key);
+    this.sorted = undefined;
+  }
+
+  entries(): OrderBookEntry[] {
+    if (!this.sorted) {
+      const direction = this.side === "bids" ? -1 : 1;
+      this.sorted = Array.from(this.levels, ([price, quantity]) => ({ price, quantity })).sort(
+        (a, b) => direction * (new BigNumber(a.price).comparedTo(b.price) ?? 0)
+      );
+    }
+    return this.sorted;
+  }
+}
+
+/**
+ * @example
+ * ```typescript
+ * const book = new OrderBookStore(sdk, { symbol: "BTC-PERP", wsUrl: "wss://ws.dipcoin.io/v1" });
+ * book.onChange(({ bestBid, bestAsk }) => console.log(bestBid?.price, bestAsk?.price));
+ * await book.start();
+ * console.log(book.depth(5));
+ * ```
+ */
+export class OrderBookStore {
+  private bids = new BookSide("bids");
+  private asks = new BookSide("asks");
+  private ws?: WsClient;
+  private ownsWs = false;
+  private unsubscribeWs?: () => void;
+  private bookSubscription?: WsSubscription;
+  private resyncTimer?: ReturnType<typeof setInterval>;
+  private ready = false;
+  private sequence?: number;
+  private timestamp?: number;
+  /** Frames received while a REST snapshot is in flight */
+  private pending?: WsPayload[];
+  private resyncing?: Promise<void>;
+  /** Resync requested while replaying `pending` frames */
+  private queuedResync?: OrderBookResyncReason;
+  private changeListeners = new Listeners<OrderBookChangeEvent>();
+  private resyncListeners = new Listeners<OrderBookResyncEvent>();
+  private errorListeners = new Listeners<string>();
+
+  constructor(private sdk: DipCoinPerpSDK, private options: OrderBookStoreOptions) {
+    if (!options.symbol) throw new Error("symbol is required");
+  }
+
+  /** Subscribe to the `orderBook` channel and seed the book from REST. */
+  async start(): Promise<void> {
+    if (!this.unsubscribeWs && (this.options.ws || this.options.wsUrl)) {
+      this.ws = this.options.ws ?? this.sdk.createWsClient({ url: this.options.wsUrl as string });
+      this.ownsWs = !this.options.ws;
+      this.unsubscribeWs = this.ws.onMessage((msg) => this.handleMessage(msg));
+      try {
+        if (this.ownsWs) await this.ws.connect();
+      } catch (error) {
+        // Reset so the next start() connects and subscribes again
+        this.unsubscribeWs();
+        this.unsubscribeWs = undefined;
+        if (this.ownsWs) {
+          this.ws.close();
+          this.ws = undefined;
+        }
+        throw error;
+      }
+      this.bookSubscription = this.ws.subscribe({
+        channel: "orderBook",
+        symbol: this.options.symbol,
+      });
+    }
+    if (!this.resyncTimer && this.options.resyncIntervalMs && this.options.resyncIntervalMs > 0) {
+      this.resyncTimer = setInterval(
+        () => void this.resync("interval"),
+        this.options.resyncIntervalMs
+      );
+    }
+    await this.resync("start");
+  }
+
+  stop(): void {
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = undefined;
+    }
+    this.unsubscribeWs?.();
+    this.unsubscribeWs = undefined;
+    // Other consumers of the same book channel keep their own handles
+    this.bookSubscription?.unsubscribe();
+    this.bookSubscription = undefined;
+    if (this.ws) {
+      if (this.ownsWs) this.ws.close();
+      this.ws = undefined;
+    }
+    this.ready = false;
+  }
+
+  /** Whether the book holds a snapshot (false before start and while resyncing). */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /** Fired after every applied snapshot or delta. */
+  onChange(cb: (event: OrderBookChangeEvent) => void): () => void {
+    return this.changeListeners.add(cb);
+  }
+
+  /** Fired when the book is re-snapshotted from REST. */
+  onResync(cb: (event: OrderBookResyncEvent) => void): () => void {
+    return this.resyncListeners.add(cb);
+  }
+
+  onError(cb: (error: string) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /** The book in the shape of `getOrderBook`, optionally limited to `levels` per side. */
+  getBook(levels?: number): OrderBook {
+    return {
+      symbol: this.options.symbol,
+      bids: this.top(this.bids, levels),
+      asks: this.top(this.asks, levels),
+      timestamp: this.timestamp,
+    };
+  }
+
+  bestBid(): OrderBookEntry | undefined {
+    return this.bids.entries()[0];
+  }
+
+  bestAsk(): OrderBookEntry | undefined {
+    return this.asks.entries()[0];
+  }
+
+  /** Average of best bid and ask in wei (undefined when a side is empty). */
+  midPrice(): string | undefined {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    if (!bid || !ask) return undefined;
+    return new BigNumber(bid.price).plus(ask.price).dividedBy(2).toString(10);
+  }
+
+  /** Top `levels` of each side. */
+  depth(levels: number): { bids: OrderBookEntry[]; asks: OrderBookEntry[] } {
+    return { bids: this.top(this.bids, levels), asks: this.top(this.asks, levels) };
+  }
+
+  /** Top `levels` of each side with the running quantity from the best price. */
+  cumulativeDepth(levels?: number): {
+    bids: CumulativeOrderBookEntry[];
+    asks: CumulativeOrderBookEntry[];
+  } {
+    const accumulate = (entries: OrderBookEntry[]) => {
+      let total = new BigNumber(0);
+      return entries.map((entry) => {
+        total = total.plus(entry.quantity);
+        return { ...entry, cumulativeQuantity: total.toString(10) };
+      });
+    };
+    return {
+      bids: accumulate(this.top(this.bids, levels)),
+      asks: accumulate(this.top(this.asks, levels)),
+    };
+  }
+
+  /**
+   * Replace the book with a REST snapshot. Frames arriving meanwhile are
+   * applied on top once it lands. Concurrent calls share one request.
+   */
+  resync(reason: OrderBookResyncReason = "manual"): Promise<void> {
+    if (!this.resyncing) {
+      this.resyncing = this.runResync(reason).finally(() => {
+        this.resyncing = undefined;
+      });
+    }
+    return this.resyncing;
+  }
+
+  private async runResync(reason: OrderBookResyncReason): Promise<void> {
+    let next: OrderBookResyncReason | undefined = reason;
+    while (next) {
+      this.queuedResync = undefined;
+      await this.fetchSnapshot(next);
+      next = this.queuedResync;
+    }
+  }
+
+  private requestResync(reason: OrderBookResyncReason): void {
+    if (this.resyncing) this.queuedResync = reason;
+    else void this.resync(reason);
+  }
+
+  private async fetchSnapshot(reason: OrderBookResyncReason): Promise<void> {
+    this.ready = false;
+    this.pending = [];
+    this.resyncListeners.emit({ symbol: this.options.symbol, reason });
+    try {
+      const result = await this.sdk.getOrderBook(this.options.symbol);
+      if (!result.status || !result.data) {
+        this.errorListeners.emit(`Failed to get order book: ${result.error}`);
+        return;
+      }
+      this.bids.replace(result.data.bids);
+      this.asks.replace(result.data.asks);
+      this.timestamp = result.data.timestamp;
+      // The REST book carries no sequence; the next frame starts a new one
+      this.sequence = undefined;
+      this.ready = true;
+      this.emitChange("snapshot");
+    } catch (error) {
+      this.errorListeners.emit(formatError(error));
+    } finally {
+      const pending = this.pending ?? [];
+      this.pending = undefined;
+      if (this.ready) {
+        for (const frame of pending) this.applyFrame(frame);
+      }
+    }
+  }
+
+  private handleMessage(msg: unknown): void {
+    for (const frame of payloadsOf(msg, "orderBook")) {
+      if (frame.symbol !== this.options.symbol) continue;
+      if (this.pending) {
+        this.pending.push(frame);
+        continue;
+      }
+      this.applyFrame(frame);
+    }
+  }
+
+  private applyFrame(frame: WsPayload): void {
+    const isSnapshot = this.isSnapshotFrame(frame);
+    if (!isSnapshot && !this.ready) return;
+
+    const sequence = this.numberField(frame, ["seq", "sequence", "version", "u"]);
+    const previous = this.numberField(frame, ["prevSeq", "prevSequence", "pu"]);
+    if (!isSnapshot && sequence !== undefined && this.sequence !== undefined) {
+      // Stale or replayed frame
+      if (sequence <= this.sequence) return;
+      const expected = previous ?? sequence - 1;
+      if (expected !== this.sequence) {
+        this.requestResync("gap");
+        return;
+      }
+    }
+
+    if (isSnapshot) {
+      this.bids.replace(this.parseLevels(frame.bids));
+      this.asks.replace(this.parseLevels(frame.asks));
+      this.ready = true;
+    } else {
+      for (const level of this.parseLevels(frame.bids)) this.bids.set(level.price, level.quantity);
+      for (const level of this.parseLevels(frame.asks)) this.asks.set(level.price, level.quantity);
+    }
+    if (sequence !== undefined) this.sequence = sequence;
+    this.timestamp = Number(frame.timestamp ?? frame.ts ?? Date.now());
+
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    if (bid && ask && new BigNumber(bid.price).gte(ask.price)) {
+      this.requestResync("crossed");
+      return;
+    }
+    this.emitChange(isSnapshot ? "snapshot" : "delta");
+  }
+
+  private isSnapshotFrame(frame: WsPayload): boolean {
+    const mode = this.options.frameMode ?? "auto";
+    if (mode !== "auto") return mode === "snapshot";
+    const type = String(frame.type ?? frame.action ?? "").toLowerCase();
+    return SNAPSHOT_FRAME_TYPES.includes(type);
+  }
+
+  /**
+   * Levels of a frame, keeping zero quantities (removals) unlike
+   * `processOrderBookEntries`.
+   */
+  private parseLevels(entries: unknown): OrderBookEntry[] {
+    if (!Array.isArray(entries)) return [];
+    const levels: OrderBookEntry[] = [];
+    for (const entry of entries) {
+      if (!isWsPayload(entry)) continue;
+      const [price, quantity] = Array.isArray(entry) ? entry : [entry.price, entry.quantity];
+      if (price === undefined || price === null || quantity === undefined || quantity === null) {
+        continue;
+      }
+      if (new BigNumber(String(price)).isNaN() || new BigNumber(String(quantity)).isNaN()) continue;
+      levels.push({ price: String(price), quantity: String(quantity) });
+    }
+    return levels;
+  }
+
+  private numberField(frame: WsPayload, keys: string[]): number | undefined {
+    for (const key of keys) {
+      const value = Number(frame[key]);
+      if (frame[key] !== undefined && frame[key] !== null && Number.isFinite(value)) return value;
+    }
+    return undefined;
+  }
+
+  private top(side: BookSide, levels?: number): OrderBookEntry[] {
+    const entries = side.entries();
+    return levels === undefined ? [...entries] : entries.slice(0, Math.max(levels, 0));
+  }
+
+  private emitChange(source: "snapshot" | "delta"): void {
+    this.changeListeners.emit({
+      symbol: this.options.symbol,
+      source,
+      bestBid: this.bestBid(),
+      bestAsk: this.bestAsk(),
+      sequence: this.sequence,
+    });
+  }
+}
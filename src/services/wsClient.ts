@@ -1,14 +1,30 @@
 // Copyright (c) 2025 Dipcoin LLC
 // SPDX-License-Identifier: Apache-2.0
 
-import type { WsClientOptions, WsSubscribeParams } from "../types";
+import type {
+  WsAuth,
+  WsAuthContext,
+  WsClientOptions,
+  WsConnectionState,
+  WsMessageChannel,
+  WsMessageOf,
+  WsStateChangeEvent,
+  WsSubscribeParams,
+  WsSubscriptionOptions,
+} from "../types";
+import { formatError } from "../utils";
+import { decodeWsMessage } from "./wsMessages";
+import { WsSubscription, matchesSubscription } from "./wsSubscription";
+import type { WsPayload } from "./wsPayloads";
 
 type Listener = (msg: any) => void;
+type StateListener = (event: WsStateChangeEvent) => void;
 
 /**
  * Minimal WebSocket client that mirrors the channel/subscribe protocol used
- * by the perp-market gateway. Supports auto reconnect, JSON message parsing
- * and subscription replay after reconnection. Works in both Node.js (>=22,
+ * by the perp-market gateway. Supports auto reconnect with exponential
+ * backoff, connection state events, JSON message parsing and subscription
+ * replay after reconnection. Works in both Node.js (>=22,
  * via the built-in `WebSocket` global) and the browser. For older Node.js
  * runtimes install the optional `ws` package.
  *
@@ -21,11 +37,23 @@ export class WsClient {
   private url: string;
   private socket?: any;
   private listeners = new Set<Listener>();
-  private subscriptions: WsSubscribeParams[] = [];
+  private subscriptions: WsSubscription<unknown>[] = [];
   private autoReconnect: boolean;
   private reconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private reconnectBackoffFactor: number;
+  private reconnectJitter: number;
+  private maxReconnectAttempts: number;
+  private connectTimeoutMs: number;
+  private reconnectAttempts = 0;
+  private state: WsConnectionState = "closed";
+  private stateListeners = new Set<StateListener>();
   private heartbeatIntervalMs: number;
   private heartbeatPayload: Record<string, any>;
+  private transformMessage?: (msg: unknown) => unknown;
+  private resolveAuth?: (context: WsAuthContext) => Promise<WsAuth | undefined>;
+  /** Close code / reason of the dropped connection, passed to the next `resolveAuth` */
+  private lastClose?: WsAuthContext;
   private heartbeatTimer?: ReturnType<typeof setInterval>;
   private reconnectTimer?: ReturnType<typeof setTimeout>;
   private manuallyClosed = false;
@@ -36,8 +64,15 @@ export class WsClient {
     this.url = options.url;
     this.autoReconnect = options.autoReconnect ?? true;
     this.reconnectDelayMs = options.reconnectDelayMs ?? 3000;
+    this.maxReconnectDelayMs = options.maxReconnectDelayMs ?? 60000;
+    this.reconnectBackoffFactor = options.reconnectBackoffFactor ?? 2;
+    this.reconnectJitter = Math.min(Math.max(options.reconnectJitter ?? 0.3, 0), 1);
+    this.maxReconnectAttempts = options.maxReconnectAttempts ?? Infinity;
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 10000;
     this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 25000;
     this.heartbeatPayload = options.heartbeatPayload ?? { op: "ping" };
+    this.transformMessage = options.transformMessage;
+    this.resolveAuth = options.resolveAuth;
     this.authToken = options.authToken;
     this.walletAddress = options.walletAddress;
   }
@@ -48,10 +83,55 @@ export class WsClient {
     this.walletAddress = walletAddress;
   }
 
-  /** Open the WebSocket connection. */
+  /**
+   * Update auth credentials. When they changed while connected, reconnect
+   * right away so private channels are re-subscribed with them.
+   */
+  refreshAuth(authToken?: string, walletAddress?: string): void {
+    const changed = authToken !== this.authToken || walletAddress !== this.walletAddress;
+    this.setAuth(authToken, walletAddress);
+    if (changed && this.state === "open") this.reconnectNow("auth changed");
+  }
+
+  /** Current connection state. */
+  getState(): WsConnectionState {
+    return this.state;
+  }
+
+  /** Listen for connection state changes. Returns an unsubscribe function. */
+  onStateChange(cb: StateListener): () => void {
+    this.stateListeners.add(cb);
+    return () => this.stateListeners.delete(cb);
+  }
+
+  /**
+   * Open the WebSocket connection. Rejects when the socket errors or closes
+   * before opening, or is not open within `connectTimeoutMs`.
+   */
   connect(): Promise<void> {
+    this.manuallyClosed = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+    this.reconnectAttempts = 0;
+    this.lastClose = undefined;
+    this.setState("connecting");
+    return this.open().catch((error) => {
+      if (this.state !== "closed") this.setState("closed", { error: formatError(error) });
+      throw error;
+    });
+  }
+
+  private async open(): Promise<void> {
+    // Pull fresh credentials before every (re)connect
+    if (this.resolveAuth) {
+      const context = this.lastClose ?? {};
+      this.lastClose = undefined;
+      const auth = await this.resolveAuth(context);
+      if (auth) this.setAuth(auth.authToken, auth.walletAddress);
+    }
     return new Promise((resolve, reject) => {
-      this.manuallyClosed = false;
       const WS = this.resolveWebSocketCtor();
       if (!WS) {
         reject(
@@ -74,19 +154,46 @@ export class WsClient {
         target += (target.includes("?") ? "&" : "?") + params.join("&");
       }
 
+      let sock: any;
       try {
-        this.socket = new WS(target);
+        sock = new WS(target);
       } catch (e) {
         reject(e);
         return;
       }
+      this.socket = sock;
+
+      let opened = false;
+      let settled = false;
+      const fail = (error: unknown) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        if (this.socket === sock) this.socket = undefined;
+        try {
+          sock.close?.();
+        } catch {
+          // ignore
+        }
+        reject(error instanceof Error ? error : new Error(formatError(error)));
+      };
+      const timeout = setTimeout(
+        () => fail(new Error(`WebSocket connect timed out after ${this.connectTimeoutMs}ms`)),
+        this.connectTimeoutMs
+      );
 
-      const sock: any = this.socket;
       const handleOpen = () => {
-        for (const sub of this.subscriptions) {
-          this.sendRaw({ op: "subscribe", args: [sub] });
+        if (this.manuallyClosed) fail(new Error("WebSocket closed while connecting"));
+        if (settled) return;
+        settled = true;
+        opened = true;
+        clearTimeout(timeout);
+        this.reconnectAttempts = 0;
+        for (const params of this.subscribedParams()) {
+          this.sendRaw({ op: "subscribe", args: [params] });
         }
         this.startHeartbeat();
+        this.setState("open");
         resolve();
       };
 
@@ -100,6 +207,13 @@ export class WsClient {
         } catch {
           // pass through non-JSON frames as-is.
         }
+        if (this.transformMessage) {
+          try {
+            msg = this.transformMessage(msg);
+          } catch (e) {
+            console.error("WsClient transformMessage threw:", e);
+          }
+        }
         for (const cb of this.listeners) {
           try {
             cb(msg);
@@ -107,17 +221,37 @@ export class WsClient {
             console.error("WsClient listener threw:", e);
           }
         }
+        for (const sub of this.subscriptions) {
+          if (matchesSubscription(sub.params, msg)) sub.dispatch(msg);
+        }
       };
 
-      const handleClose = () => {
+      // `ws` passes (code, reason); the browser passes a CloseEvent
+      const handleClose = (event: unknown, reasonArg?: unknown) => {
+        const close =
+          typeof event === "number"
+            ? { code: event, reason: reasonArg }
+            : (event as { code?: number; reason?: unknown } | undefined);
+        const code = close?.code;
+        const reason = String(close?.reason ?? "");
+        if (this.socket === sock) this.lastClose = { closeCode: code, closeReason: reason };
+        if (!opened) {
+          fail(new Error(`WebSocket closed before opening (code ${code ?? "unknown"})`));
+          return;
+        }
+        if (this.socket !== sock) return;
+        this.socket = undefined;
         this.stopHeartbeat();
         if (!this.manuallyClosed && this.autoReconnect) {
-          this.scheduleReconnect();
+          this.scheduleReconnect({ code, reason });
+        } else {
+          this.setState("closed", { code, reason });
         }
       };
 
       const handleError = (err: any) => {
-        if (!this.socket) reject(err);
+        // Errors before open fail the attempt; later errors are followed by close
+        if (!opened) fail(err?.error ?? err?.message ?? err ?? new Error("WebSocket error"));
       };
 
       if (typeof sock.on === "function") {
@@ -148,6 +282,7 @@ export class WsClient {
       // ignore
     }
     this.socket = undefined;
+    if (this.state !== "closed") this.setState("closed");
   }
 
   /** Add a message listener. Returns an unsubscribe function. */
@@ -156,18 +291,43 @@ export class WsClient {
     return () => this.listeners.delete(cb);
   }
 
+  /**
+   * Add a listener for decoded frames of one channel. The handler receives
+   * the same shapes as the REST methods (see {@link decodeWsMessage}).
+   * Returns an unsubscribe function.
+   */
+  on<C extends WsMessageChannel>(channel: C, handler: (msg: WsMessageOf<C>) => void): () => void {
+    return this.onMessage((raw) => {
+      const msg = decodeWsMessage(raw);
+      if (msg && msg.channel === channel) handler(msg as WsMessageOf<C>);
+    });
+  }
+
   /**
    * Subscribe to a channel. The subscription is remembered so that on
-   * reconnect it is automatically replayed.
+   * reconnect it is automatically replayed. The returned handle receives the
+   * frames routed to these params (channel, symbol and any extra keys) and
+   * can be iterated with `for await`.
    */
-  subscribe(params: WsSubscribeParams): void {
-    this.subscriptions.push(params);
-    this.sendRaw({ op: "subscribe", args: [params] });
+  subscribe<T = WsPayload>(
+    params: WsSubscribeParams,
+    options?: WsSubscriptionOptions
+  ): WsSubscription<T> {
+    const sub = new WsSubscription<unknown>(params, options, (released) => this.release(released));
+    const alreadySubscribed = this.subscriptions.some((s) =>
+      this.matchSubscription(s.params, params)
+    );
+    this.subscriptions.push(sub);
+    if (!alreadySubscribed) this.sendRaw({ op: "subscribe", args: [params] });
+    // Frames are not validated: `T` is the caller's description of them
+    return sub as WsSubscription<T>;
   }
 
-  /** Unsubscribe from a previously subscribed channel. */
+  /** Unsubscribe from a previously subscribed channel, ending every handle for it. */
   unsubscribe(params: WsSubscribeParams): void {
-    this.subscriptions = this.subscriptions.filter((p) => !this.matchSubscription(p, params));
+    const [matching, rest] = this.partitionSubscriptions(params);
+    this.subscriptions = rest;
+    for (const sub of matching) sub.end();
     this.sendRaw({ op: "unsubscribe", args: [params] });
   }
 
@@ -183,6 +343,33 @@ export class WsClient {
     }
   }
 
+  /** Drop one handle; unsubscribe on the gateway when it was the last for its params. */
+  private release(sub: WsSubscription<unknown>): void {
+    this.subscriptions = this.subscriptions.filter((s) => s !== sub);
+    const [matching] = this.partitionSubscriptions(sub.params);
+    if (matching.length === 0) this.sendRaw({ op: "unsubscribe", args: [sub.params] });
+  }
+
+  private partitionSubscriptions(
+    params: WsSubscribeParams
+  ): [WsSubscription<unknown>[], WsSubscription<unknown>[]] {
+    const matching: WsSubscription<unknown>[] = [];
+    const rest: WsSubscription<unknown>[] = [];
+    for (const sub of this.subscriptions) {
+      (this.matchSubscription(sub.params, params) ? matching : rest).push(sub);
+    }
+    return [matching, rest];
+  }
+
+  /** Distinct params of the live subscriptions, for replay after reconnect. */
+  private subscribedParams(): WsSubscribeParams[] {
+    const params: WsSubscribeParams[] = [];
+    for (const sub of this.subscriptions) {
+      if (!params.some((p) => this.matchSubscription(p, sub.params))) params.push(sub.params);
+    }
+    return params;
+  }
+
   private matchSubscription(a: WsSubscribeParams, b: WsSubscribeParams): boolean {
     return (
       a.channel === b.channel && a.symbol === b.symbol && JSON.stringify(a) === JSON.stringify(b)
@@ -203,14 +390,68 @@ export class WsClient {
     }
   }
 
-  private scheduleReconnect(): void {
+  /**
+   * Schedule the next reconnect attempt with exponential backoff and jitter,
+   * or move to `failed` once `maxReconnectAttempts` is used up.
+   */
+  private scheduleReconnect(detail: Partial<WsStateChangeEvent> = {}): void {
     if (this.reconnectTimer) return;
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      this.setState("failed", { ...detail, attempt: this.reconnectAttempts });
+      return;
+    }
+    const attempt = ++this.reconnectAttempts;
+    const delayMs = this.reconnectDelay(attempt);
+    this.setState("reconnecting", { ...detail, attempt, delayMs });
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = undefined;
-      this.connect().catch(() => {
-        if (this.autoReconnect && !this.manuallyClosed) this.scheduleReconnect();
+      this.open().catch((error) => {
+        if (this.autoReconnect && !this.manuallyClosed) {
+          this.scheduleReconnect({ error: formatError(error) });
+        }
       });
-    }, this.reconnectDelayMs);
+    }, delayMs);
+  }
+
+  /** Drop the current socket and open a new one without backoff. */
+  private reconnectNow(reason: string): void {
+    const sock = this.socket;
+    // Detach first so the old socket's close event is ignored
+    this.socket = undefined;
+    this.stopHeartbeat();
+    try {
+      sock?.close?.();
+    } catch {
+      // ignore
+    }
+    this.reconnectAttempts = 0;
+    this.setState("reconnecting", { reason, delayMs: 0 });
+    this.open().catch((error) => {
+      if (this.autoReconnect && !this.manuallyClosed) {
+        this.scheduleReconnect({ error: formatError(error) });
+      }
+    });
+  }
+
+  private reconnectDelay(attempt: number): number {
+    const base = Math.min(
+      this.reconnectDelayMs * Math.pow(this.reconnectBackoffFactor, attempt - 1),
+      this.maxReconnectDelayMs
+    );
+    return Math.round(base * (1 - this.reconnectJitter * Math.random()));
+  }
+
+  private setState(state: WsConnectionState, detail: Partial<WsStateChangeEvent> = {}): void {
+    const previousState = this.state;
+    this.state = state;
+    const event: WsStateChangeEvent = { ...detail, state, previousState };
+    for (const cb of this.stateListeners) {
+      try {
+        cb(event);
+      } catch (e) {
+        console.error("WsClient state listener threw:", e);
+      }
+    }
   }
 
   private startHeartbeat(): void {
@@ -0,0 +1,167 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Per-channel decoders turning raw gateway frames into {@link WsMessage}
+ * values. Payloads are run through the same processors as the REST methods,
+ * so a decoded `ticker` is a `Ticker` in wei like `getTicker`, a `kline` is
+ * `KlineBar[]` in normal units like `getKlineHistory`, and so on.
+ */
+import { processKlineBar, processOrderBookEntries, processTickerData } from "../trading";
+import {
+  AccountInfo,
+  OpenOrder,
+  Position,
+  WsMessage,
+  WsMessageChannel,
+  WsMessageOf,
+  WsTrade,
+} from "../types";
+import {
+  WsPayload,
+  channelOf,
+  frameSymbol,
+  isWsPayload,
+  payloadsOf,
+  stringField,
+} from "./wsPayloads";
+
+type WsDecoder<C extends WsMessageChannel> = (msg: unknown) => WsMessageOf<C> | undefined;
+
+/** `data` of a frame of `channel`, when it is an object or array. */
+function frameData(msg: unknown, channel: WsMessageChannel): WsPayload | undefined {
+  return channelOf(msg) === channel && isWsPayload(msg) && isWsPayload(msg.data)
+    ? msg.data
+    : undefined;
+}
+
+function frameTimestamp(payload: WsPayload, msg: unknown): number {
+  const time = payload.timestamp ?? (isWsPayload(msg) ? msg.ts : undefined);
+  return time !== undefined && time !== null ? Number(time) : Date.now();
+}
+
+function decodeTrade(item: WsPayload, symbol?: string): WsTrade {
+  if (Array.isArray(item)) {
+    const [price, quantity, side, timestamp] = item;
+    return {
+      symbol,
+      price: String(price ?? "0"),
+      quantity: String(quantity ?? "0"),
+      side: side !== undefined ? String(side) : undefined,
+      timestamp: timestamp !== undefined ? Number(timestamp) : undefined,
+    };
+  }
+  const time = item.timestamp ?? item.time ?? item.createdAt;
+  return {
+    ...item,
+    symbol: stringField(item, "symbol") ?? symbol,
+    price: String(item.price ?? "0"),
+    quantity: String(item.quantity ?? item.qty ?? "0"),
+    timestamp: time !== undefined ? Number(time) : undefined,
+  };
+}
+
+/** Decoders keyed by channel. Each returns `undefined` for frames it cannot decode. */
+export const wsDecoders: { [C in WsMessageChannel]: WsDecoder<C> } = {
+  orderBook: (msg) => {
+    const [book] = payloadsOf(msg, "orderBook");
+    if (!book || !Array.isArray(book.bids) || !Array.isArray(book.asks)) return undefined;
+    const symbol = stringField(book, "symbol") ?? frameSymbol(msg);
+    return {
+      channel: "orderBook",
+      symbol,
+      data: {
+        symbol,
+        bids: processOrderBookEntries(book.bids, "bids"),
+        asks: processOrderBookEntries(book.asks, "asks"),
+        timestamp: frameTimestamp(book, msg),
+      },
+      raw: msg,
+    };
+  },
+
+  ticker: (msg) => {
+    const [ticker] = payloadsOf(msg, "ticker").filter((item) => stringField(item, "symbol"));
+    if (!ticker) return undefined;
+    const data = processTickerData(ticker);
+    return { channel: "ticker", symbol: data.symbol, data, raw: msg };
+  },
+
+  tickers: (msg) => {
+    const tickers = payloadsOf(msg, "tickers").filter((item) => stringField(item, "symbol"));
+    if (tickers.length === 0) return undefined;
+    return { channel: "tickers", data: tickers.map(processTickerData), raw: msg };
+  },
+
+  kline: (msg) => {
+    const data = frameData(msg, "kline");
+    if (!data) return undefined;
+    // A single bar may arrive as a row array, so only nested arrays are lists
+    const rows: unknown[] =
+      Array.isArray(data) && (data.length === 0 || typeof data[0] === "object") ? data : [data];
+    return {
+      channel: "kline",
+      symbol: frameSymbol(msg) ?? stringField(data, "symbol"),
+      data: rows.filter(isWsPayload).map(processKlineBar),
+      raw: msg,
+    };
+  },
+
+  tradeList: (msg) => {
+    const data = frameData(msg, "tradeList");
+    if (!data) return undefined;
+    const symbol = frameSymbol(msg);
+    const items: unknown[] = Array.isArray(data) ? data : [data];
+    return {
+      channel: "tradeList",
+      symbol,
+      data: items.filter(isWsPayload).map((item) => decodeTrade(item, symbol)),
+      raw: msg,
+    };
+  },
+
+  account: (msg) => {
+    const [account] = payloadsOf(msg, "account");
+    if (!account) return undefined;
+    // Same fields (and wei units) as getAccountInfo
+    const data: AccountInfo = {
+      walletBalance: stringField(account, "walletBalance") || "0",
+      totalUnrealizedProfit: stringField(account, "totalUnrealizedProfit") || "0",
+      accountValue: stringField(account, "accountValue") || "0",
+      freeCollateral: stringField(account, "freeCollateral") || "0",
+      totalMargin: stringField(account, "totalMargin") || "0",
+    };
+    return { channel: "account", data, raw: msg };
+  },
+
+  position: (msg) => {
+    if (!frameData(msg, "position")) return undefined;
+    return {
+      channel: "position",
+      symbol: frameSymbol(msg),
+      // Passed through like getPositions (wei strings)
+      data: payloadsOf(msg, "position") as unknown as Position[],
+      raw: msg,
+    };
+  },
+
+  order: (msg) => {
+    if (!frameData(msg, "order")) return undefined;
+    return {
+      channel: "order",
+      symbol: frameSymbol(msg),
+      data: payloadsOf(msg, "order") as unknown as OpenOrder[],
+      raw: msg,
+    };
+  },
+};
+
+/**
+ * Decode a parsed WS frame. Returns `undefined` for control frames (pong,
+ * subscribe acks) and channels without a decoder.
+ */
+export function decodeWsMessage(msg: unknown): WsMessage | undefined {
+  const channel = channelOf(msg);
+  if (!channel || !Object.prototype.hasOwnProperty.call(wsDecoders, channel)) return undefined;
+  return (wsDecoders[channel as WsMessageChannel] as WsDecoder<WsMessageChannel>)(msg);
+}
@@ -0,0 +1,55 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Helpers to pull channel payloads out of gateway WS frames. Frames carry the
+ * channel either at the top level (`{ channel, data }`) or in the subscribe
+ * echo (`{ arg: { channel, symbol }, data }`); `data` is an object or array.
+ */
+
+/** A parsed JSON object from a WS frame, fields as sent by the gateway. */
+export type WsPayload = Record<string, unknown>;
+
+/** Whether a parsed value is a JSON object (or array) whose fields can be read. */
+export function isWsPayload(value: unknown): value is WsPayload {
+  return !!value && typeof value === "object";
+}
+
+/** A payload field as a string, when it is a string or a finite number. */
+export function stringField(payload: WsPayload, key: string): string | undefined {
+  const value = payload[key];
+  if (typeof value === "string") return value;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return undefined;
+}
+
+/** Value of `key` on the frame itself or, failing that, in its subscribe echo. */
+function frameField(msg: unknown, key: string): unknown {
+  if (!isWsPayload(msg)) return undefined;
+  return msg[key] ?? (isWsPayload(msg.arg) ? msg.arg[key] : undefined);
+}
+
+/** Channel name of a WS frame, if any. */
+export function channelOf(msg: unknown): string | undefined {
+  const channel = frameField(msg, "channel");
+  return typeof channel === "string" ? channel : undefined;
+}
+
+/** Symbol of a WS frame (top level or subscribe echo), if any. */
+export function frameSymbol(msg: unknown): string | undefined {
+  const symbol = frameField(msg, "symbol");
+  return typeof symbol === "string" ? symbol : undefined;
+}
+
+/**
+ * Payload objects of `channel` in a frame, each with `symbol` filled in from
+ * the frame when the payload omits it.
+ */
+export function payloadsOf(msg: unknown, channel: string): WsPayload[] {
+  if (channelOf(msg) !== channel || !isWsPayload(msg) || !isWsPayload(msg.data)) return [];
+  const symbol = frameSymbol(msg);
+  const items: unknown[] = Array.isArray(msg.data) ? msg.data : [msg.data];
+  return items
+    .filter(isWsPayload)
+    .map((item) => (item.symbol || !symbol ? item : { ...item, symbol }));
+}
@@ -0,0 +1,193 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Per-subscription delivery for {@link WsClient}: frames routed to the
+ * subscription that requested them, consumed through `onMessage` handlers or
+ * as a bounded async iterable.
+ */
+import type { WsSubscribeParams, WsSubscriptionOptions } from "../types";
+import { WsPayload, channelOf, isWsPayload } from "./wsPayloads";
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Value of a routing key in a frame: the subscribe echo (`arg`), the frame
+ * itself or its (first) payload.
+ */
+function frameValue(msg: WsPayload, key: string): unknown {
+  const data: unknown = Array.isArray(msg.data) ? msg.data[0] : msg.data;
+  return (
+    (isWsPayload(msg.arg) ? msg.arg[key] : undefined) ??
+    msg[key] ??
+    (isWsPayload(data) ? data[key] : undefined)
+  );
+}
+
+/**
+ * Whether a frame belongs to a subscription: same channel, and every other
+ * subscribe key (`symbol`, `interval`, ...) equal when the frame carries it.
+ */
+export function matchesSubscription(params: WsSubscribeParams, msg: unknown): boolean {
+  if (!isWsPayload(msg) || channelOf(msg) !== params.channel) return false;
+  for (const [key, expected] of Object.entries(params)) {
+    if (key === "channel" || expected === undefined) continue;
+    const actual = frameValue(msg, key);
+    if (actual !== undefined && actual !== null && String(actual) !== String(expected)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/** Bounded queue behind one async iterator. */
+class IteratorBuffer<T> {
+  private queue: T[] = [];
+  private waiting?: (result: IteratorResult<T>) => void;
+  private error?: Error;
+  private done = false;
+
+  constructor(private options: Required<WsSubscriptionOptions>) {}
+
+  push(msg: T): void {
+    if (this.done || this.error) return;
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: msg, done: false });
+      return;
+    }
+    if (this.queue.length < this.options.bufferSize) {
+      this.queue.push(msg);
+      return;
+    }
+    switch (this.options.overflow) {
+      case "dropOldest":
+        this.queue.shift();
+        this.queue.push(msg);
+        break;
+      case "dropNewest":
+        break;
+      case "error":
+        this.queue = [];
+        this.error = new Error(
+          `WS subscription buffer overflow (${this.options.bufferSize} messages)`
+        );
+        break;
+    }
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.queue.length > 0) {
+      return Promise.resolve({ value: this.queue.shift() as T, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = undefined;
+      this.done = true;
+      return Promise.reject(error);
+    }
+    if (this.done) return Promise.resolve({ value: undefined, done: true });
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  /** Finish after the buffered messages are consumed. */
+  end(): void {
+    this.done = true;
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: undefined, done: true });
+    }
+  }
+}
+
+/**
+ * Handle returned by `WsClient.subscribe`. Receives only the frames routed
+ * to its channel / symbol / extra keys, as parsed JSON objects (pass `T` to
+ * type them). Iterators buffer up to `bufferSize`
+ * frames each and apply the `overflow` policy when the consumer falls behind.
+ *
+ * @example
+ * ```typescript
+ * const sub = ws.subscribe({ channel: "ticker", symbol: "BTC-PERP" }, { bufferSize: 100 });
+ * for await (const tick of sub) {
+ *   console.log(tick.data);
+ * }
+ * ```
+ */
+export class WsSubscription<T = WsPayload> implements AsyncIterable<T> {
+  private handlers = new Set<(msg: T) => void>();
+  private iterators = new Set<IteratorBuffer<T>>();
+  private options: Required<WsSubscriptionOptions>;
+  private active = true;
+
+  constructor(
+    readonly params: WsSubscribeParams,
+    options: WsSubscriptionOptions = {},
+    private release: (sub: WsSubscription<T>) => void
+  ) {
+    this.options = {
+      bufferSize: Math.max(options.bufferSize ?? DEFAULT_BUFFER_SIZE, 1),
+      overflow: options.overflow ?? "dropOldest",
+    };
+  }
+
+  /** False once unsubscribed. */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /** Add a handler for this subscription's frames. Returns a removal function. */
+  onMessage(cb: (msg: T) => void): () => void {
+    this.handlers.add(cb);
+    return () => this.handlers.delete(cb);
+  }
+
+  /**
+   * Stop receiving frames. The channel is unsubscribed on the gateway once
+   * no other handle holds the same params; iterators finish after draining.
+   */
+  unsubscribe(): void {
+    if (!this.active) return;
+    this.end();
+    this.release(this);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    const buffer = new IteratorBuffer<T>(this.options);
+    if (this.active) this.iterators.add(buffer);
+    else buffer.end();
+    return {
+      next: () => buffer.next(),
+      return: () => {
+        this.iterators.delete(buffer);
+        buffer.end();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  /** @internal Called by `WsClient` for every frame routed here. */
+  dispatch(msg: T): void {
+    if (!this.active) return;
+    for (const cb of this.handlers) {
+      try {
+        cb(msg);
+      } catch (e) {
+        console.error("WsSubscription handler threw:", e);
+      }
+    }
+    for (const buffer of this.iterators) buffer.push(msg);
+  }
+
+  /** @internal Deactivate without notifying the client. */
+  end(): void {
+    this.active = false;
+    this.handlers.clear();
+    for (const buffer of this.iterators) buffer.end();
+    this.iterators.clear();
+  }
+}
@@ -0,0 +1,385 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Position-synchronized TP/SL: `tpslType: "position"` plans keep the
+ * quantity they were created with, so scaling a position in or out leaves
+ * them mis-sized. The bracket manager watches positions (`position` WS
+ * channel plus `getPositions` polling), edits the plans to the live size via
+ * `placePositionTpSlOrders` with `planId`, and cancels the plans left behind
+ * once a position closes. Tracked positions are persisted through a
+ * {@link StateStore}, so positions that closed while the manager was down are
+ * cleaned up on the next start.
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import type { WsClient } from "../services/wsClient";
+import type { WsSubscription } from "../services/wsSubscription";
+import {
+  OrderResponse,
+  OrderSide,
+  OrderType,
+  PlaceTpSlOrdersResult,
+  Position,
+  PositionTpSlOrder,
+  SDKResponse,
+  TpSlMode,
+} from "../types";
+import { formatError, formatWeiToNormal } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { classifyOrderStatus } from "./orderStatus";
+import { MemoryStateStore, StateStore } from "./stateStore";
+import { channelOf } from "../services/wsPayloads";
+
+export interface BracketManagerOptions {
+  /** Existing WS client to share (caller owns its connection) */
+  ws?: WsClient;
+  /** WS URL used to create an SDK-authenticated client when `ws` is omitted */
+  wsUrl?: string;
+  /** Vault / sub-account whose positions are managed (defaults to the wallet) */
+  parentAddress?: string;
+  /** Only manage these symbols (defaults to all) */
+  symbols?: string[];
+  /** `getPositions` polling interval in ms (default 5000, 0 disables) */
+  pollIntervalMs?: number;
+  /** Tracked position persistence (defaults to in-memory) */
+  store?: StateStore<BracketTrackedPosition[]>;
+}
+
+/** One TP or SL leg of a position plan. */
+export interface BracketPlanLeg {
+  kind: "tp" | "sl";
+  planId: string | number;
+  quantity: string;
+  triggerPrice: string;
+  orderPrice?: string;
+  orderType?: OrderType;
+}
+
+export interface BracketResizeEvent {
+  symbol: string;
+  positionId: string;
+  leg: BracketPlanLeg;
+  /** New plan quantity (the live position size) */
+  quantity: string;
+  response: SDKResponse<PlaceTpSlOrdersResult>;
+}
+
+export interface BracketOrphanEvent {
+  symbol: string;
+  positionId: string;
+  planId: string | number;
+  response: SDKResponse<OrderResponse>;
+}
+
+export interface BracketErrorEvent {
+  symbol?: string;
+  error: string;
+}
+
+/**
+ * A position whose plans are managed. Kept until its orphaned plans are
+ * cancelled, so a failed cleanup is retried on the next sync.
+ */
+export interface BracketTrackedPosition {
+  symbol: string;
+  positionId: string;
+  isLong: boolean;
+  quantity: string;
+  leverage: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Split a position plan into its TP / SL legs. Plans are returned either
+ * per leg (`planOrderType`) or as a batch carrying both `tp*` and `sl*` fields.
+ */
+export function bracketLegsOf(plan: PositionTpSlOrder): BracketPlanLeg[] {
+  const legs: BracketPlanLeg[] = [];
+  const orderType = plan.orderType === OrderType.LIMIT ? OrderType.LIMIT : OrderType.MARKET;
+  const tpTrigger =
+    plan.tpTriggerPrice ?? (plan.planOrderType === "takeProfit" ? plan.triggerPrice : undefined);
+  const slTrigger =
+    plan.slTriggerPrice ?? (plan.planOrderType === "stopLoss" ? plan.triggerPrice : undefined);
+  if (plan.tpPlanId != null && tpTrigger) {
+    legs.push({
+      kind: "tp",
+      planId: plan.tpPlanId,
+      quantity: plan.quantity,
+      triggerPrice: tpTrigger,
+      orderPrice:
+        plan.tpOrderPrice ?? (plan.planOrderType === "takeProfit" ? plan.price : undefined),
+      orderType,
+    });
+  }
+  if (plan.slPlanId != null && slTrigger) {
+    legs.push({
+      kind: "sl",
+      planId: plan.slPlanId,
+      quantity: plan.quantity,
+      triggerPrice: slTrigger,
+      orderPrice: plan.slOrderPrice ?? (plan.planOrderType === "stopLoss" ? plan.price : undefined),
+      orderType,
+    });
+  }
+  return legs;
+}
+
+/**
+ * @example
+ * ```typescript
+ * const brackets = new BracketManager(sdk, {
+ *   wsUrl: "wss://ws.dipcoin.io/v1",
+ *   store: new FileStateStore("./brackets.json"),
+ * });
+ * brackets.onResize(({ symbol, leg, quantity }) => console.log(symbol, leg.kind, "->", quantity));
+ * await brackets.start();
+ * ```
+ */
+export class BracketManager {
+  private ws?: WsClient;
+  private ownsWs = false;
+  private unsubscribeWs?: () => void;
+  private positionSubscription?: WsSubscription;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  /** Tracked positions keyed by position id */
+  private positions = new Map<string, BracketTrackedPosition>();
+  private store: StateStore<BracketTrackedPosition[]>;
+  private syncing = false;
+  private syncAgain = false;
+  private resizeListeners = new Listeners<BracketResizeEvent>();
+  private orphanListeners = new Listeners<BracketOrphanEvent>();
+  private errorListeners = new Listeners<BracketErrorEvent>();
+
+  constructor(private sdk: DipCoinPerpSDK, private options: BracketManagerOptions = {}) {
+    this.store = options.store ?? new MemoryStateStore<BracketTrackedPosition[]>();
+  }
+
+  /**
+   * Restore persisted positions, subscribe to position updates, start
+   * polling and run a first sync. Restored positions that are no longer open
+   * get their plans cancelled by that sync.
+   */
+  async start(): Promise<void> {
+    const saved = (await this.store.load()) ?? [];
+    for (const position of saved) {
+      if (!this.positions.has(position.positionId))
+        this.positions.set(position.positionId, position);
+    }
+
+    if (!this.unsubscribeWs && (this.options.ws || this.options.wsUrl)) {
+      this.ws = this.options.ws ?? this.sdk.createWsClient({ url: this.options.wsUrl as string });
+      this.ownsWs = !this.options.ws;
+      this.unsubscribeWs = this.ws.onMessage((msg) => {
+        if (channelOf(msg) === "position") void this.sync();
+      });
+      try {
+        if (this.ownsWs) await this.ws.connect();
+      } catch (error) {
+        // Reset so the next start() connects and subscribes again
+        this.unsubscribeWs();
+        this.unsubscribeWs = undefined;
+        if (this.ownsWs) {
+          this.ws.close();
+          this.ws = undefined;
+        }
+        throw error;
+      }
+      this.positionSubscription = this.ws.subscribe({ channel: "position" });
+    }
+    const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    if (!this.pollTimer && interval > 0) {
+      this.pollTimer = setInterval(() => void this.sync(), interval);
+    }
+    await this.sync();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    this.unsubscribeWs?.();
+    this.unsubscribeWs = undefined;
+    this.positionSubscription?.unsubscribe();
+    this.positionSubscription = undefined;
+    if (this.ws) {
+      if (this.ownsWs) this.ws.close();
+      this.ws = undefined;
+    }
+  }
+
+  /** Fired after a plan was edited to the live position size. */
+  onResize(cb: (event: BracketResizeEvent) => void): () => void {
+    return this.resizeListeners.add(cb);
+  }
+
+  /** Fired after a plan of a closed position was cancelled. */
+  onOrphanCancelled(cb: (event: BracketOrphanEvent) => void): () => void {
+    return this.orphanListeners.add(cb);
+  }
+
+  onError(cb: (event: BracketErrorEvent) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /**
+   * Compare positions with their plans: resize mis-sized plans and cancel
+   * the plans of tracked positions that are no longer open. A position whose
+   * cleanup failed stays tracked and is retried on the next sync. Concurrent
+   * calls are coalesced into one follow-up run.
+   */
+  async sync(): Promise<void> {
+    if (this.syncing) {
+      this.syncAgain = true;
+      return;
+    }
+    this.syncing = true;
+    try {
+      do {
+        this.syncAgain = false;
+        await this.syncOnce();
+      } while (this.syncAgain);
+    } catch (error) {
+      this.errorListeners.emit({ error: formatError(error) });
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  private async syncOnce(): Promise<void> {
+    const result = await this.sdk.getPositions(undefined, this.options.parentAddress);
+    if (!result.status) {
+      this.errorListeners.emit({ error: `Failed to get positions: ${result.error}` });
+      return;
+    }
+    const live = new Map<string, BracketTrackedPosition>();
+    for (const position of result.data ?? []) {
+      if (this.options.symbols && !this.options.symbols.includes(position.symbol)) continue;
+      const tracked = this.track(position);
+      if (tracked) live.set(tracked.positionId, tracked);
+    }
+
+    const next = new Map(live);
+    for (const [positionId, previous] of this.positions) {
+      if (live.has(positionId)) continue;
+      if (!(await this.cancelOrphans(previous.symbol, positionId))) {
+        next.set(positionId, previous);
+      }
+    }
+    for (const position of live.values()) {
+      await this.resizePlans(position.symbol, position);
+    }
+    this.positions = next;
+    await this.persist();
+  }
+
+  private track(position: Position): BracketTrackedPosition | undefined {
+    const positionId = position.id ?? position.positionId;
+    // Position values are returned in wei
+    const quantity = new BigNumber(formatWeiToNormal(position.quantity || 0)).abs();
+    if (positionId === undefined || quantity.isZero()) return undefined;
+    return {
+      symbol: position.symbol,
+      positionId: String(positionId),
+      isLong: position.isLong,
+      quantity: quantity.toString(10),
+      leverage: formatWeiToNormal(position.positionSelectedLeverage || position.leverage || 0),
+    };
+  }
+
+  private async resizePlans(symbol: string, position: BracketTrackedPosition): Promise<void> {
+    const plans = await this.activePlans(symbol, position.positionId, "position");
+    for (const leg of (plans ?? []).flatMap(bracketLegsOf)) {
+      if (new BigNumber(leg.quantity).eq(position.quantity)) continue;
+      const config = {
+        triggerPrice: leg.triggerPrice,
+        orderPrice: leg.orderType === OrderType.LIMIT ? leg.orderPrice : undefined,
+        orderType: leg.orderType,
+        planId: leg.planId,
+        tpslType: "position" as TpSlMode,
+      };
+      const response = await this.sdk.placePositionTpSlOrders({
+        symbol,
+        side: position.isLong ? OrderSide.SELL : OrderSide.BUY,
+        isLong: position.isLong,
+        quantity: position.quantity,
+        leverage: new BigNumber(position.leverage).gt(0) ? position.leverage : "1",
+        rounding: "nearest",
+        ...(leg.kind === "tp" ? { tp: config } : { sl: config }),
+      });
+      if (!response.status) {
+        this.errorListeners.emit({
+          symbol,
+          error: `Failed to resize ${leg.kind} plan ${leg.planId}: ${response.error}`,
+        });
+      }
+      this.resizeListeners.emit({
+        symbol,
+        positionId: position.positionId,
+        leg,
+        quantity: position.quantity,
+        response,
+      });
+    }
+  }
+
+  /** Cancel the plans left by a closed position. Returns false if any step failed. */
+  private async cancelOrphans(symbol: string, positionId: string): Promise<boolean> {
+    const positionPlans = await this.activePlans(symbol, positionId, "position");
+    const normalPlans = await this.activePlans(symbol, positionId, "normal");
+    if (!positionPlans || !normalPlans) return false;
+    const plans = [...positionPlans, ...normalPlans];
+    let ok = true;
+    const planIds = new Set<string | number>();
+    for (const plan of plans) {
+      const legs = bracketLegsOf(plan);
+      if (legs.length > 0) legs.forEach((leg) => planIds.add(leg.planId));
+      else if (plan.id !== undefined) planIds.add(plan.id);
+    }
+    for (const planId of planIds) {
+      const response = await this.sdk.cancelPlanOrder({
+        planId,
+        symbol,
+        parentAddress: this.options.parentAddress,
+      });
+      if (!response.status) {
+        ok = false;
+        this.errorListeners.emit({
+          symbol,
+          error: `Failed to cancel orphaned plan ${planId}: ${response.error}`,
+        });
+      }
+      this.orphanListeners.emit({ symbol, positionId, planId, response });
+    }
+    return ok;
+  }
+
+  private async activePlans(
+    symbol: string,
+    positionId: string,
+    mode: TpSlMode
+  ): Promise<PositionTpSlOrder[] | undefined> {
+    const result = await this.sdk.getPositionTpSl(positionId, mode);
+    if (!result.status) {
+      this.errorListeners.emit({
+        symbol,
+        error: `Failed to get ${mode} TP/SL plans: ${result.error}`,
+      });
+      return undefined;
+    }
+    return (result.data ?? []).filter((plan) => {
+      const statusClass = classifyOrderStatus(plan.status);
+      return statusClass !== "filled" && statusClass !== "cancelled";
+    });
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save([...this.positions.values()]);
+    } catch (error) {
+      this.errorListeners.emit({ error: `Failed to persist bracket state: ${formatError(error)}` });
+    }
+  }
+}
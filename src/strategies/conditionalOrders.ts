@@ -0,0 +1,418 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Client-side conditional orders: a prepared `PlaceOrderParams` is sent once
+ * a condition on the funding rate, the oracle price or the clock is met.
+ * Conditions are polled over REST (and, for oracle prices, optionally
+ * streamed from the `ticker` WS channel), fire at most once, and are
+ * persisted through a {@link StateStore} so they survive restarts.
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import type { WsClient } from "../services/wsClient";
+import type { WsSubscription } from "../services/wsSubscription";
+import { FundingRateDetail, OrderResponse, PlaceOrderParams } from "../types";
+import { generateClientOrderId } from "../trading";
+import { formatError, formatWeiToNormal } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { MemoryStateStore, StateStore } from "./stateStore";
+import { payloadsOf, stringField } from "../services/wsPayloads";
+
+/**
+ * Fires when the funding rate is above `above` or below `below` (normal
+ * units, e.g. "0.0005" = 0.05%).
+ */
+export interface FundingRateCondition {
+  type: "fundingRate";
+  symbol: string;
+  /** Field of `getFundingRateDetail` to compare (default "predictedRate") */
+  field?: "predictedRate" | "fundingRate";
+  above?: number | string;
+  below?: number | string;
+}
+
+/** Fires when the oracle price crosses `price` in the given direction. */
+export interface OraclePriceCondition {
+  type: "oraclePrice";
+  symbol: string;
+  crosses: "above" | "below";
+  price: number | string;
+}
+
+/** Fires at a timestamp (ms). */
+export interface TimeCondition {
+  type: "time";
+  at: number;
+}
+
+export type OrderCondition = FundingRateCondition | OraclePriceCondition | TimeCondition;
+
+export type ConditionalOrderStatus = "armed" | "triggering" | "triggered" | "failed" | "cancelled";
+
+export interface ConditionalOrder {
+  id: string;
+  condition: OrderCondition;
+  /** Order sent when the condition is met (`clientId` is assigned on arm) */
+  order: PlaceOrderParams;
+  status: ConditionalOrderStatus;
+  /** Last observed value of the condition's input (normal units) */
+  lastValue?: string;
+  createdAt: number;
+  triggeredAt?: number;
+  response?: OrderResponse;
+  error?: string;
+}
+
+export interface ConditionalOrderManagerOptions {
+  /** Persistence of armed conditions (defaults to in-memory) */
+  store?: StateStore<ConditionalOrder[]>;
+  /** REST polling interval in ms (default 5000, 0 disables) */
+  pollIntervalMs?: number;
+  /** Existing WS client used to stream oracle prices from `ticker` */
+  ws?: WsClient;
+  /** WS URL used to create an SDK-authenticated client when `ws` is omitted */
+  wsUrl?: string;
+}
+
+export interface ConditionalOrderErrorEvent {
+  id?: string;
+  error: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * @example
+ * ```typescript
+ * const conditional = new ConditionalOrderManager(sdk, { store: new FileStateStore("./conditions.json") });
+ * conditional.onTrigger((c) => console.log(c.id, c.status, c.error));
+ * await conditional.start();
+ * await conditional.add(
+ *   { type: "fundingRate", symbol: "BTC-PERP", above: "0.0005" },
+ *   { symbol: "BTC-PERP", side: OrderSide.SELL, orderType: OrderType.MARKET, quantity: "0.1", leverage: 5 }
+ * );
+ * ```
+ */
+export class ConditionalOrderManager {
+  private conditions = new Map<string, ConditionalOrder>();
+  private store: StateStore<ConditionalOrder[]>;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private timeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private ws?: WsClient;
+  private ownsWs = false;
+  private unsubscribeWs?: () => void;
+  /** Ticker subscription handles by symbol, released on stop */
+  private tickerSubscriptions = new Map<string, WsSubscription>();
+  private started = false;
+  private seq = 0;
+  private triggerListeners = new Listeners<ConditionalOrder>();
+  private errorListeners = new Listeners<ConditionalOrderErrorEvent>();
+
+  constructor(private sdk: DipCoinPerpSDK, private options: ConditionalOrderManagerOptions = {}) {
+    this.store = options.store ?? new MemoryStateStore<ConditionalOrder[]>();
+  }
+
+  /**
+   * Restore persisted conditions and start polling / streaming. Conditions
+   * that were mid-trigger when the process stopped are marked failed rather
+   * than sent again, since their order may already have been placed.
+   */
+  async start(): Promise<void> {
+    const saved = (await this.store.load()) ?? [];
+    for (const condition of saved) {
+      if (this.conditions.has(condition.id)) continue;
+      if (condition.status === "triggering") {
+        condition.status = "failed";
+        condition.error = `Interrupted while triggering; check order ${condition.order.clientId}`;
+      }
+      this.conditions.set(condition.id, condition);
+    }
+    await this.persist();
+
+    if (!this.unsubscribeWs && (this.options.ws || this.options.wsUrl)) {
+      this.ws = this.options.ws ?? this.sdk.createWsClient({ url: this.options.wsUrl as string });
+      this.ownsWs = !this.options.ws;
+      this.unsubscribeWs = this.ws.onMessage((msg) => this.handleMessage(msg));
+      try {
+        if (this.ownsWs) await this.ws.connect();
+      } catch (error) {
+        // Reset so the next start() connects and subscribes again
+        this.unsubscribeWs();
+        this.unsubscribeWs = undefined;
+        if (this.ownsWs) {
+          this.ws.close();
+          this.ws = undefined;
+        }
+        throw error;
+      }
+    }
+    this.started = true;
+    for (const condition of this.conditions.values()) this.watch(condition);
+
+    const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    if (!this.pollTimer && interval > 0) {
+      this.pollTimer = setInterval(() => void this.evaluate(), interval);
+    }
+    await this.evaluate();
+  }
+
+  /** Stop evaluating. Armed conditions stay persisted. */
+  stop(): void {
+    this.started = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    for (const timer of this.timeTimers.values()) clearTimeout(timer);
+    this.timeTimers.clear();
+    this.unsubscribeWs?.();
+    this.unsubscribeWs = undefined;
+    for (const subscription of this.tickerSubscriptions.values()) subscription.unsubscribe();
+    this.tickerSubscriptions.clear();
+    if (this.ws) {
+      if (this.ownsWs) this.ws.close();
+      this.ws = undefined;
+    }
+  }
+
+  /** Arm a condition. The order gets a `clientId` (when it has none) for tracing. */
+  async add(
+    condition: OrderCondition,
+    order: PlaceOrderParams,
+    id?: string
+  ): Promise<ConditionalOrder> {
+    this.validate(condition);
+    const now = Date.now();
+    const record: ConditionalOrder = {
+      id: id ?? `cond-${now.toString(36)}-${++this.seq}`,
+      condition,
+      order: { ...order, clientId: order.clientId ?? generateClientOrderId() },
+      status: "armed",
+      createdAt: now,
+    };
+    this.conditions.set(record.id, record);
+    await this.persist();
+    if (this.started) this.watch(record);
+    return record;
+  }
+
+  /** Disarm a condition (kept in the list as "cancelled"). */
+  async cancel(id: string): Promise<boolean> {
+    const record = this.conditions.get(id);
+    if (!record || record.status !== "armed") return false;
+    record.status = "cancelled";
+    this.clearTimeTimer(id);
+    await this.persist();
+    return true;
+  }
+
+  /** Forget a condition entirely. */
+  async remove(id: string): Promise<void> {
+    this.clearTimeTimer(id);
+    this.conditions.delete(id);
+    await this.persist();
+  }
+
+  get(id: string): ConditionalOrder | undefined {
+    return this.conditions.get(id);
+  }
+
+  list(): ConditionalOrder[] {
+    return Array.from(this.conditions.values());
+  }
+
+  /** Fired after a condition was met and its order sent (successfully or not). */
+  onTrigger(cb: (condition: ConditionalOrder) => void): () => void {
+    return this.triggerListeners.add(cb);
+  }
+
+  onError(cb: (event: ConditionalOrderErrorEvent) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /** Poll the inputs of every armed condition once (one request per symbol and input). */
+  async evaluate(): Promise<void> {
+    const armed = this.list().filter((c) => c.status === "armed");
+    const funding = new Map<string, Promise<FundingRateDetail | undefined>>();
+    const oracle = new Map<string, Promise<string | undefined>>();
+
+    for (const record of armed) {
+      const { condition } = record;
+      try {
+        if (condition.type === "time") {
+          if (Date.now() >= condition.at) await this.fire(record, String(Date.now()));
+        } else if (condition.type === "fundingRate") {
+          if (!funding.has(condition.symbol)) {
+            funding.set(condition.symbol, this.fetchFunding(condition.symbol));
+          }
+          const detail = await funding.get(condition.symbol);
+          const value = detail?.[condition.field ?? "predictedRate"];
+          if (value !== undefined && value !== null) await this.observe(record, value);
+        } else {
+          if (!oracle.has(condition.symbol)) {
+            oracle.set(condition.symbol, this.fetchOracle(condition.symbol));
+          }
+          const price = await oracle.get(condition.symbol);
+          if (price !== undefined) await this.observe(record, price);
+        }
+      } catch (error) {
+        this.errorListeners.emit({ id: record.id, error: formatError(error) });
+      }
+    }
+    // Keep the last observed values, so crossings are detected across restarts
+    if (armed.length > 0) await this.persist();
+  }
+
+  /** Feed an observed value for a condition and fire it when met. */
+  private async observe(record: ConditionalOrder, value: BigNumber.Value): Promise<void> {
+    const current = new BigNumber(value);
+    if (current.isNaN() || record.status !== "armed") return;
+    const previous = record.lastValue !== undefined ? new BigNumber(record.lastValue) : undefined;
+    const { condition } = record;
+    let met = false;
+    if (condition.type === "fundingRate") {
+      met =
+        (condition.above !== undefined && current.gt(condition.above)) ||
+        (condition.below !== undefined && current.lt(condition.below));
+    } else if (condition.type === "oraclePrice") {
+      // A cross needs an earlier observation on the other side of the level
+      met =
+        previous !== undefined &&
+        (condition.crosses === "above"
+          ? previous.lte(condition.price) && current.gt(condition.price)
+          : previous.gte(condition.price) && current.lt(condition.price));
+    }
+    record.lastValue = current.toString(10);
+    if (met) await this.fire(record, record.lastValue);
+  }
+
+  /** Send the prepared order. Persisted as "triggering" first so it is never sent twice. */
+  private async fire(record: ConditionalOrder, value: string): Promise<void> {
+    if (record.status !== "armed") return;
+    record.status = "triggering";
+    record.lastValue = value;
+    record.triggeredAt = Date.now();
+    this.clearTimeTimer(record.id);
+    await this.persist();
+    try {
+      const response = await this.sdk.placeOrder(record.order);
+      record.status = response.status ? "triggered" : "failed";
+      record.response = response.data;
+      record.error = response.status ? undefined : response.error;
+    } catch (error) {
+      record.status = "failed";
+      record.error = formatError(error);
+    }
+    await this.persist();
+    if (record.error) this.errorListeners.emit({ id: record.id, error: record.error });
+    this.triggerListeners.emit(record);
+  }
+
+  private watch(record: ConditionalOrder): void {
+    if (record.status !== "armed") return;
+    const { condition } = record;
+    if (condition.type === "time" && !this.timeTimers.has(record.id)) {
+      const delay = Math.max(condition.at - Date.now(), 0);
+      // setTimeout overflows past ~24.8 days; polling covers later times
+      if (delay < 2 ** 31 - 1) {
+        this.timeTimers.set(
+          record.id,
+          setTimeout(() => {
+            this.timeTimers.delete(record.id);
+            void this.fire(record, String(Date.now()));
+          }, delay)
+        );
+      }
+    }
+    if (
+      condition.type === "oraclePrice" &&
+      this.ws &&
+      !this.tickerSubscriptions.has(condition.symbol)
+    ) {
+      this.tickerSubscriptions.set(
+        condition.symbol,
+        this.ws.subscribe({ channel: "ticker", symbol: condition.symbol })
+      );
+    }
+  }
+
+  private handleMessage(msg: unknown): void {
+    for (const ticker of payloadsOf(msg, "ticker")) {
+      const oraclePrice = stringField(ticker, "oraclePrice");
+      if (!ticker.symbol || !oraclePrice) continue;
+      // Ticker prices are in wei, like the REST ticker
+      const price = formatWeiToNormal(oraclePrice);
+      for (const record of this.conditions.values()) {
+        const { condition } = record;
+        if (condition.type === "oraclePrice" && condition.symbol === ticker.symbol) {
+          this.observe(record, price).catch((error) =>
+            this.errorListeners.emit({ id: record.id, error: formatError(error) })
+          );
+        }
+      }
+    }
+  }
+
+  /** Funding rate detail with `fundingRate` / `predictedRate` in normal units. */
+  private async fetchFunding(symbol: string): Promise<FundingRateDetail | undefined> {
+    const result = await this.sdk.getFundingRateDetail(symbol);
+    if (!result.status) {
+      this.errorListeners.emit({
+        error: `Failed to get funding rate for ${symbol}: ${result.error}`,
+      });
+      return undefined;
+    }
+    if (!result.data) return undefined;
+    // The funding rate detail is in wei
+    const toNormal = (value?: string) =>
+      value !== undefined && value !== null && value !== "" ? formatWeiToNormal(value) : undefined;
+    return {
+      ...result.data,
+      fundingRate: toNormal(result.data.fundingRate),
+      predictedRate: toNormal(result.data.predictedRate),
+    };
+  }
+
+  private async fetchOracle(symbol: string): Promise<string | undefined> {
+    const result = await this.sdk.getOraclePrice(symbol);
+    if (!result.status || !result.data) {
+      this.errorListeners.emit({
+        error: `Failed to get oracle price for ${symbol}: ${result.error}`,
+      });
+      return undefined;
+    }
+    // Oracle prices are returned in wei
+    return formatWeiToNormal(result.data);
+  }
+
+  private validate(condition: OrderCondition): void {
+    if (condition.type === "time") {
+      if (!Number.isFinite(condition.at)) throw new Error("time condition needs a valid `at`");
+    } else if (condition.type === "fundingRate") {
+      if (condition.above === undefined && condition.below === undefined) {
+        throw new Error("fundingRate condition needs `above` or `below`");
+      }
+    } else if (condition.type === "oraclePrice") {
+      if (new BigNumber(condition.price).isNaN()) {
+        throw new Error("oraclePrice condition needs a valid `price`");
+      }
+    } else {
+      throw new Error(`Unknown condition type: ${(condition as { type: string }).type}`);
+    }
+  }
+
+  private clearTimeTimer(id: string): void {
+    const timer = this.timeTimers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timeTimers.delete(id);
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(this.list());
+    } catch (error) {
+      this.errorListeners.emit({ error: `Failed to persist conditions: ${formatError(error)}` });
+    }
+  }
+}
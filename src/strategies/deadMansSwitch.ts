@@ -0,0 +1,249 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Dead-man's switch: the application calls `heartbeat()` periodically; when
+ * no heartbeat arrives within `timeoutMs` the switch cancels the open orders
+ * of the configured accounts / symbols (and optionally closes positions via
+ * `flattenAll`). Heartbeats can be shared through a {@link StateStore}, so
+ * the switch can run in a separate watchdog process with the same
+ * credentials.
+ */
+import type { DipCoinPerpSDK } from "../sdk";
+import { BatchResult, CancelOrderParams, FlattenAllResult, OrderResponse } from "../types";
+import { formatError } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { StateStore } from "./stateStore";
+
+/** Account (and optional symbol filter) protected by the switch. */
+export interface DeadMansSwitchTarget {
+  /** Vault / sub-account (defaults to the wallet) */
+  parentAddress?: string;
+  /** Only these symbols (defaults to all) */
+  symbols?: string[];
+}
+
+/** Heartbeat record shared through `heartbeatStore`. */
+export interface DeadMansSwitchHeartbeat {
+  lastHeartbeat: number;
+}
+
+export interface DeadMansSwitchOptions {
+  /** Silence after which the switch fires, in ms */
+  timeoutMs: number;
+  /** How often the deadline is checked in ms (default timeoutMs / 4, at most 1000) */
+  checkIntervalMs?: number;
+  /** Accounts to protect (default: the wallet, all symbols) */
+  targets?: DeadMansSwitchTarget[];
+  /** Also cancel TP/SL plans and close positions with reduce-only MARKET orders */
+  closePositions?: boolean;
+  /** Slippage bound for closing orders (see `PlaceOrderParams.maxSlippage`) */
+  maxSlippage?: number | true;
+  /**
+   * Shared heartbeat store. The application's `heartbeat()` writes to it and
+   * a watchdog process running `start()` reads from it.
+   */
+  heartbeatStore?: StateStore<DeadMansSwitchHeartbeat>;
+}
+
+export type DeadMansSwitchStatus = "idle" | "armed" | "triggering" | "triggered";
+
+/** What the switch did for one target. */
+export interface DeadMansSwitchReport {
+  parentAddress?: string;
+  /** Cancel results (cancel-only mode) */
+  cancelled?: BatchResult<OrderResponse>;
+  /** Flatten report (`closePositions` mode) */
+  flattened?: FlattenAllResult;
+  error?: string;
+}
+
+export interface DeadMansSwitchState {
+  status: DeadMansSwitchStatus;
+  timeoutMs: number;
+  lastHeartbeat?: number;
+  /** Time at which the switch fires without another heartbeat */
+  deadline?: number;
+  triggeredAt?: number;
+  reports?: DeadMansSwitchReport[];
+}
+
+/**
+ * @example
+ * ```typescript
+ * const dms = new DeadMansSwitch(sdk, { timeoutMs: 30_000, closePositions: true });
+ * dms.onTrigger((state) => console.error("dead-man's switch fired", state.reports));
+ * await dms.start();
+ * setInterval(() => void dms.heartbeat(), 5_000);
+ * ```
+ */
+export class DeadMansSwitch {
+  private timer?: ReturnType<typeof setInterval>;
+  private state: DeadMansSwitchState;
+  private triggerListeners = new Listeners<DeadMansSwitchState>();
+  private stateListeners = new Listeners<DeadMansSwitchState>();
+  private errorListeners = new Listeners<string>();
+
+  constructor(private sdk: DipCoinPerpSDK, private options: DeadMansSwitchOptions) {
+    if (!(options.timeoutMs > 0)) throw new Error("timeoutMs must be greater than zero");
+    this.state = { status: "idle", timeoutMs: options.timeoutMs };
+  }
+
+  getState(): DeadMansSwitchState {
+    return { ...this.state };
+  }
+
+  /** Milliseconds left before the switch fires (undefined when not armed). */
+  msUntilTrigger(now = Date.now()): number | undefined {
+    if (this.state.status !== "armed" || this.state.deadline === undefined) return undefined;
+    return Math.max(this.state.deadline - now, 0);
+  }
+
+  /** Fired after the switch cancelled / flattened the targets. */
+  onTrigger(cb: (state: DeadMansSwitchState) => void): () => void {
+    return this.triggerListeners.add(cb);
+  }
+
+  /** Fired on every status change (armed / triggering / triggered / idle). */
+  onStateChange(cb: (state: DeadMansSwitchState) => void): () => void {
+    return this.stateListeners.add(cb);
+  }
+
+  onError(cb: (error: string) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /** Arm the switch and start checking the deadline. Counts as a heartbeat. */
+  async start(): Promise<void> {
+    if (this.timer) return;
+    const stored = await this.loadHeartbeat();
+    this.state.lastHeartbeat = Math.max(stored ?? 0, Date.now());
+    this.arm();
+    const interval =
+      this.options.checkIntervalMs ?? Math.min(Math.max(this.options.timeoutMs / 4, 100), 1000);
+    this.timer = setInterval(() => void this.check(), interval);
+  }
+
+  /** Disarm without touching any orders. */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.state.deadline = undefined;
+    this.setStatus("idle");
+  }
+
+  /**
+   * Push the deadline out by `timeoutMs`. Re-arms a switch that already
+   * fired. Written to `heartbeatStore` when configured.
+   */
+  async heartbeat(): Promise<void> {
+    const now = Date.now();
+    this.state.lastHeartbeat = now;
+    if (this.options.heartbeatStore) {
+      try {
+        await this.options.heartbeatStore.save({ lastHeartbeat: now });
+      } catch (error) {
+        this.errorListeners.emit(`Failed to save heartbeat: ${formatError(error)}`);
+      }
+    }
+    if (this.timer && this.state.status !== "triggering") this.arm();
+  }
+
+  /**
+   * Compare the last heartbeat with the deadline and fire when it passed. A
+   * newer heartbeat in the store re-arms a switch that already fired.
+   */
+  async check(now = Date.now()): Promise<void> {
+    if (this.state.status === "idle" || this.state.status === "triggering") return;
+    const stored = await this.loadHeartbeat();
+    if (stored !== undefined && stored > (this.state.lastHeartbeat ?? 0)) {
+      this.state.lastHeartbeat = stored;
+      this.arm();
+    }
+    if (
+      this.state.status === "armed" &&
+      this.state.deadline !== undefined &&
+      now >= this.state.deadline
+    ) {
+      await this.trigger();
+    }
+  }
+
+  /** Cancel (and optionally flatten) every target now. */
+  async trigger(): Promise<DeadMansSwitchState> {
+    if (this.state.status === "triggering") return this.getState();
+    this.setStatus("triggering");
+    const targets = this.options.targets?.length ? this.options.targets : [{}];
+    const reports: DeadMansSwitchReport[] = [];
+    for (const target of targets) {
+      reports.push(await this.fireTarget(target));
+    }
+    this.state.reports = reports;
+    this.state.triggeredAt = Date.now();
+    this.state.deadline = undefined;
+    this.setStatus("triggered");
+    this.triggerListeners.emit(this.getState());
+    return this.getState();
+  }
+
+  private async fireTarget(target: DeadMansSwitchTarget): Promise<DeadMansSwitchReport> {
+    const { parentAddress, symbols } = target;
+    try {
+      if (this.options.closePositions) {
+        const result = await this.sdk.flattenAll({
+          parentAddress,
+          symbols,
+          maxSlippage: this.options.maxSlippage,
+        });
+        if (!result.status) this.errorListeners.emit(result.error || "flattenAll failed");
+        return { parentAddress, flattened: result.data, error: result.error };
+      }
+
+      const open = await this.sdk.getOpenOrders(undefined, parentAddress);
+      if (!open.status) {
+        const error = `Failed to get open orders: ${open.error}`;
+        this.errorListeners.emit(error);
+        return { parentAddress, error };
+      }
+      const bySymbol = new Map<string, string[]>();
+      for (const order of open.data ?? []) {
+        if (symbols && !symbols.includes(order.symbol)) continue;
+        if (!order.hash) continue;
+        bySymbol.set(order.symbol, [...(bySymbol.get(order.symbol) ?? []), order.hash]);
+      }
+      const cancels: CancelOrderParams[] = Array.from(bySymbol, ([symbol, orderHashes]) => ({
+        symbol,
+        orderHashes,
+        parentAddress,
+      }));
+      const result = await this.sdk.cancelOrders(cancels);
+      if (!result.status) this.errorListeners.emit(result.error || "cancelOrders failed");
+      return { parentAddress, cancelled: result.data, error: result.error };
+    } catch (error) {
+      this.errorListeners.emit(formatError(error));
+      return { parentAddress, error: formatError(error) };
+    }
+  }
+
+  private arm(): void {
+    this.state.deadline = (this.state.lastHeartbeat ?? Date.now()) + this.options.timeoutMs;
+    if (this.state.status !== "armed") this.setStatus("armed");
+  }
+
+  private async loadHeartbeat(): Promise<number | undefined> {
+    if (!this.options.heartbeatStore) return undefined;
+    try {
+      return (await this.options.heartbeatStore.load())?.lastHeartbeat;
+    } catch (error) {
+      this.errorListeners.emit(`Failed to load heartbeat: ${formatError(error)}`);
+      return undefined;
+    }
+  }
+
+  private setStatus(status: DeadMansSwitchStatus): void {
+    this.state.status = status;
+    this.stateListeners.emit(this.getState());
+  }
+}
@@ -0,0 +1,387 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Iceberg orders: only a small LIMIT child rests on the book at a time. When
+ * a child is done the next one is placed from the hidden remainder, with a
+ * randomized display size. Child fills are detected from the `order` WS
+ * channel and reconciled through {@link fetchChildOrderFill}, with polling
+ * as a fallback.
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import type { WsClient } from "../services/wsClient";
+import type { WsSubscription } from "../services/wsSubscription";
+import { OrderSide, OrderType, SDKResponse, TimeInForce } from "../types";
+import { randomDisplayQuantity } from "../trading";
+import { formatError } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { fetchChildOrderFill } from "./orderStatus";
+import { payloadsOf } from "../services/wsPayloads";
+
+export interface IcebergParams {
+  symbol: string;
+  side: OrderSide;
+  /** Limit price of every child (normal units) */
+  price: number | string;
+  /** Total (hidden + visible) quantity */
+  totalQuantity: number | string;
+  /** Lower bound of the visible size */
+  minDisplayQuantity: number | string;
+  /** Upper bound of the visible size (defaults to `minDisplayQuantity`) */
+  maxDisplayQuantity?: number | string;
+  leverage: number | string;
+  reduceOnly?: boolean;
+  /** "GTC" (default) or "POST_ONLY" */
+  timeInForce?: Extract<TimeInForce, "GTC" | "POST_ONLY">;
+  parentAddress?: string;
+}
+
+export interface IcebergOptions {
+  /** Existing WS client to share (caller owns its connection) */
+  ws?: WsClient;
+  /** WS URL used to create an SDK-authenticated client when `ws` is omitted */
+  wsUrl?: string;
+  /** Polling interval for the REST fallback in ms (default 5000, 0 disables) */
+  pollIntervalMs?: number;
+}
+
+export type IcebergStatus = "pending" | "active" | "completed" | "cancelled" | "failed";
+
+export interface IcebergChild {
+  clientId: string;
+  orderHash?: string;
+  quantity: string;
+  filledQuantity: string;
+  averagePrice?: string;
+  status: "open" | "filled" | "cancelled";
+  placedAt: number;
+}
+
+export interface IcebergState {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  price: string;
+  status: IcebergStatus;
+  totalQuantity: string;
+  filledQuantity: string;
+  /** Quantity not filled yet (visible child + hidden remainder) */
+  remainingQuantity: string;
+  /** Volume-weighted average fill price */
+  averagePrice?: string;
+  children: IcebergChild[];
+  error?: string;
+}
+
+export interface IcebergFillEvent {
+  state: IcebergState;
+  child: IcebergChild;
+  /** Quantity filled since the previous event */
+  filledDelta: string;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * @example
+ * ```typescript
+ * const iceberg = new IcebergOrder(sdk, {
+ *   symbol: "BTC-PERP", side: OrderSide.BUY, price: "94000", totalQuantity: "5",
+ *   minDisplayQuantity: "0.1", maxDisplayQuantity: "0.25", leverage: 5,
+ * }, { wsUrl });
+ * iceberg.onFill(({ state }) => console.log(state.filledQuantity, "/", state.totalQuantity));
+ * await iceberg.start();
+ * ```
+ */
+export class IcebergOrder {
+  readonly id: string;
+  private ws?: WsClient;
+  private ownsWs = false;
+  private unsubscribeWs?: () => void;
+  private orderSubscription?: WsSubscription;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private stepSize = "0";
+  private minTradeQty = "0";
+  private reconciling = false;
+  private reconcileAgain = false;
+  private state: IcebergState;
+  private fillListeners = new Listeners<IcebergFillEvent>();
+  private childListeners = new Listeners<IcebergChild>();
+  private doneListeners = new Listeners<IcebergState>();
+  private errorListeners = new Listeners<string>();
+
+  constructor(
+    private sdk: DipCoinPerpSDK,
+    private params: IcebergParams,
+    private options: IcebergOptions = {}
+  ) {
+    const total = new BigNumber(params.totalQuantity);
+    const min = new BigNumber(params.minDisplayQuantity);
+    if (total.isNaN() || total.lte(0)) throw new Error("totalQuantity must be greater than zero");
+    if (min.isNaN() || min.lte(0)) throw new Error("minDisplayQuantity must be greater than zero");
+    if (min.gt(params.maxDisplayQuantity ?? min)) {
+      throw new Error("maxDisplayQuantity must not be below minDisplayQuantity");
+    }
+    this.id = `iceberg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.state = {
+      id: this.id,
+      symbol: params.symbol,
+      side: params.side,
+      price: new BigNumber(params.price).toString(10),
+      status: "pending",
+      totalQuantity: total.toString(10),
+      filledQuantity: "0",
+      remainingQuantity: total.toString(10),
+      children: [],
+    };
+  }
+
+  getState(): IcebergState {
+    return { ...this.state, children: this.state.children.map((c) => ({ ...c })) };
+  }
+
+  /** Fired whenever a child reports new fills. */
+  onFill(cb: (event: IcebergFillEvent) => void): () => void {
+    return this.fillListeners.add(cb);
+  }
+
+  /** Fired when a new visible child is placed. */
+  onChild(cb: (child: IcebergChild) => void): () => void {
+    return this.childListeners.add(cb);
+  }
+
+  /** Fired once the iceberg completes, is cancelled or fails. */
+  onDone(cb: (state: IcebergState) => void): () => void {
+    return this.doneListeners.add(cb);
+  }
+
+  onError(cb: (error: string) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /** Place the first visible child and start watching for fills. */
+  async start(): Promise<SDKResponse<IcebergState>> {
+    if (this.state.status !== "pending") {
+      return { status: false, error: `Iceberg already ${this.state.status}` };
+    }
+    try {
+      const spec = await this.sdk.getMarketSpec(this.params.symbol);
+      if (!spec.status || !spec.data) {
+        return { status: false, error: spec.error || "Market spec not found" };
+      }
+      this.stepSize = spec.data.stepSize;
+      this.minTradeQty = spec.data.minTradeQty;
+
+      if (this.options.ws || this.options.wsUrl) {
+        this.ws = this.options.ws ?? this.sdk.createWsClient({ url: this.options.wsUrl as string });
+        this.ownsWs = !this.options.ws;
+        this.unsubscribeWs = this.ws.onMessage((msg) => this.handleMessage(msg));
+        if (this.ownsWs) await this.ws.connect();
+        this.orderSubscription = this.ws.subscribe({ channel: "order" });
+      }
+      const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+      if (interval > 0) {
+        this.pollTimer = setInterval(() => void this.reconcile(), interval);
+      }
+
+      this.state.status = "active";
+      const placed = await this.placeNextChild();
+      if (!placed.status) {
+        this.finish("failed", placed.error);
+        return { status: false, error: placed.error, data: this.getState() };
+      }
+      return { status: true, data: this.getState() };
+    } catch (error) {
+      this.finish("failed", formatError(error));
+      return { status: false, error: formatError(error) };
+    }
+  }
+
+  /** Cancel the resting child(ren) and stop replenishing. */
+  async cancel(): Promise<SDKResponse<IcebergState>> {
+    if (this.state.status !== "active" && this.state.status !== "pending") {
+      return { status: true, data: this.getState() };
+    }
+    this.state.status = "cancelled";
+    const errors: string[] = [];
+    const cancelled: IcebergChild[] = [];
+    for (const child of this.state.children) {
+      if (child.status !== "open") continue;
+      const result = await this.cancelChild(child);
+      if (result.status) {
+        cancelled.push(child);
+      } else {
+        errors.push(result.error || "Cancel failed");
+      }
+    }
+    // Pick up fills that landed before the cancel
+    await this.refreshChildren();
+    for (const child of cancelled) {
+      if (child.status === "open") child.status = "cancelled";
+    }
+    const error = errors.length > 0 ? errors.join("; ") : undefined;
+    this.finish(error ? "failed" : "cancelled", error);
+    return error
+      ? { status: false, error, data: this.getState() }
+      : { status: true, data: this.getState() };
+  }
+
+  /** Reconcile the visible child against REST state and replenish when it is done. */
+  async reconcile(): Promise<void> {
+    if (this.state.status !== "active") return;
+    if (this.reconciling) {
+      this.reconcileAgain = true;
+      return;
+    }
+    this.reconciling = true;
+    try {
+      do {
+        this.reconcileAgain = false;
+        await this.refreshChildren();
+        const open = this.state.children.some((c) => c.status === "open");
+        if (this.state.status !== "active" || open) continue;
+
+        if (new BigNumber(this.state.remainingQuantity).lte(0)) {
+          this.finish("completed");
+        } else if (this.state.children.some((c) => c.status === "cancelled")) {
+          this.finish("cancelled", "Child order was cancelled outside the iceberg");
+        } else {
+          const placed = await this.placeNextChild();
+          if (!placed.status) this.finish("failed", placed.error);
+        }
+      } while (this.reconcileAgain && this.state.status === "active");
+    } catch (error) {
+      this.errorListeners.emit(formatError(error));
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  private async placeNextChild(): Promise<SDKResponse> {
+    const hidden = new BigNumber(this.state.remainingQuantity);
+    const quantity = randomDisplayQuantity(
+      this.params.minDisplayQuantity,
+      this.params.maxDisplayQuantity ?? this.params.minDisplayQuantity,
+      hidden,
+      this.stepSize,
+      this.minTradeQty
+    );
+    if (new BigNumber(quantity).lte(0)) {
+      this.finish("completed");
+      return { status: true };
+    }
+    const response = await this.sdk.placeOrder({
+      symbol: this.params.symbol,
+      side: this.params.side,
+      orderType: OrderType.LIMIT,
+      price: this.params.price,
+      quantity,
+      leverage: this.params.leverage,
+      reduceOnly: this.params.reduceOnly,
+      timeInForce: this.params.timeInForce,
+      parentAddress: this.params.parentAddress,
+    });
+    if (!response.status || !response.data?.clientId) {
+      return { status: false, error: response.error || "Failed to place iceberg child" };
+    }
+    const child: IcebergChild = {
+      clientId: response.data.clientId,
+      quantity,
+      filledQuantity: "0",
+      status: "open",
+      placedAt: Date.now(),
+    };
+    this.state.children.push(child);
+    if (this.state.status !== "active") {
+      // Cancelled while the child was in flight
+      const cancelled = await this.cancelChild(child);
+      if (cancelled.status) child.status = "cancelled";
+      return { status: true };
+    }
+    this.childListeners.emit({ ...child });
+    return { status: true };
+  }
+
+  private cancelChild(child: IcebergChild): Promise<SDKResponse> {
+    return child.orderHash
+      ? this.sdk.cancelOrder({
+          symbol: this.params.symbol,
+          orderHashes: [child.orderHash],
+          parentAddress: this.params.parentAddress,
+        })
+      : this.sdk.cancelOrderByClientId(child.clientId);
+  }
+
+  /** Update fills of open children from open orders / order history. */
+  private async refreshChildren(): Promise<void> {
+    for (const child of this.state.children) {
+      if (child.status !== "open") continue;
+      const fill = await fetchChildOrderFill(this.sdk, child.clientId, child.quantity);
+      if (!fill) continue;
+      child.orderHash = child.orderHash ?? fill.orderHash;
+      this.applyFill(child, fill.filledQuantity, fill.averagePrice);
+      if (fill.state !== "open") child.status = fill.state;
+    }
+  }
+
+  private applyFill(child: IcebergChild, filled: BigNumber.Value, averagePrice?: string): void {
+    const delta = new BigNumber(filled).minus(child.filledQuantity);
+    if (averagePrice) child.averagePrice = averagePrice;
+    if (delta.lte(0)) return;
+    child.filledQuantity = new BigNumber(filled).toString(10);
+
+    const total = this.state.children.reduce(
+      (acc, c) => {
+        const qty = new BigNumber(c.filledQuantity);
+        return {
+          qty: acc.qty.plus(qty),
+          notional: acc.notional.plus(qty.multipliedBy(c.averagePrice ?? this.state.price)),
+        };
+      },
+      { qty: new BigNumber(0), notional: new BigNumber(0) }
+    );
+    this.state.filledQuantity = total.qty.toString(10);
+    this.state.remainingQuantity = BigNumber.max(
+      new BigNumber(this.state.totalQuantity).minus(total.qty),
+      0
+    ).toString(10);
+    this.state.averagePrice = total.qty.gt(0)
+      ? total.notional.dividedBy(total.qty).toString(10)
+      : undefined;
+    this.fillListeners.emit({
+      state: this.getState(),
+      child: { ...child },
+      filledDelta: delta.toString(10),
+    });
+  }
+
+  private handleMessage(msg: unknown): void {
+    for (const update of payloadsOf(msg, "order")) {
+      const hash = typeof update.hash === "string" ? update.hash.toLowerCase() : undefined;
+      const ours = this.state.children.some(
+        (c) =>
+          c.status === "open" &&
+          (update.clientId === c.clientId || (!!hash && hash === c.orderHash?.toLowerCase()))
+      );
+      if (ours) void this.reconcile();
+    }
+  }
+
+  private finish(status: IcebergStatus, error?: string): void {
+    this.state.status = status;
+    this.state.error = error;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    this.unsubscribeWs?.();
+    this.unsubscribeWs = undefined;
+    this.orderSubscription?.unsubscribe();
+    this.orderSubscription = undefined;
+    if (this.ws && this.ownsWs) this.ws.close();
+    this.ws = undefined;
+    if (error) this.errorListeners.emit(error);
+    this.doneListeners.emit(this.getState());
+  }
+}
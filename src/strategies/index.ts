@@ -0,0 +1,13 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+export * from "./trailingStop";
+export * from "./stateStore";
+export * from "./orderStatus";
+export * from "./oco";
+export * from "./twap";
+export * from "./iceberg";
+export * from "./peggedOrder";
+export * from "./deadMansSwitch";
+export * from "./conditionalOrders";
+export * from "./bracket";
@@ -0,0 +1,493 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * One-cancels-other (OCO) groups of two regular or plan orders: when one leg
+ * fills (or is cancelled elsewhere) the other leg is cancelled. Legs are
+ * watched on the `order` WS channel with a polling fallback, and group state
+ * is persisted through a {@link StateStore}.
+ */
+import type { DipCoinPerpSDK } from "../sdk";
+import type { WsClient } from "../services/wsClient";
+import type { WsSubscription } from "../services/wsSubscription";
+import { PlaceOrderParams, SDKResponse, TpSlMode } from "../types";
+import { extractOrderHash } from "../trading";
+import { formatError } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { classifyOrderStatus } from "./orderStatus";
+import { MemoryStateStore, StateStore } from "./stateStore";
+import { WsPayload, payloadsOf, stringField } from "../services/wsPayloads";
+
+/** A regular (order book) order leg. */
+export interface OcoOrderLeg {
+  kind: "order";
+  orderHash: string;
+  clientId?: string;
+}
+
+/** A plan (TP/SL) order leg. */
+export interface OcoPlanLeg {
+  kind: "plan";
+  planId?: string | number;
+  hash?: string;
+  /** Position id; enables polling the plan through `getPositionTpSl` */
+  positionId?: string | number;
+  tpslType?: TpSlMode;
+}
+
+export type OcoLeg = OcoOrderLeg | OcoPlanLeg;
+
+export type OcoLegStatus = "open" | "filled" | "cancelled";
+
+export type OcoLegState = OcoLeg & { status: OcoLegStatus };
+
+export type OcoGroupStatus = "active" | "completed" | "cancelled" | "failed";
+
+export interface OcoGroup {
+  id: string;
+  symbol: string;
+  parentAddress?: string;
+  legs: [OcoLegState, OcoLegState];
+  status: OcoGroupStatus;
+  /** Index of the leg that filled, once one has */
+  filledLeg?: 0 | 1;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OcoGroupInput {
+  id?: string;
+  symbol: string;
+  parentAddress?: string;
+  legs: [OcoLeg, OcoLeg];
+}
+
+export interface OcoLegEvent {
+  group: OcoGroup;
+  legIndex: 0 | 1;
+  /** True when the cancellation was issued by the manager */
+  byManager?: boolean;
+}
+
+export interface OcoErrorEvent {
+  groupId: string;
+  error: string;
+}
+
+export interface OcoManagerOptions {
+  /** Existing WS client to share (caller owns its connection) */
+  ws?: WsClient;
+  /** WS URL used to create an SDK-authenticated client when `ws` is omitted */
+  wsUrl?: string;
+  /** Group persistence (defaults to in-memory) */
+  store?: StateStore<OcoGroup[]>;
+  /** Polling interval for the REST fallback in ms (default 5000, 0 disables) */
+  pollIntervalMs?: number;
+  /** Treat a partial fill as the trigger (default true) */
+  triggerOnPartialFill?: boolean;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+/** History pages (100 orders each) searched for a leg that left the book */
+const HISTORY_PAGES = 5;
+
+/**
+ * @example
+ * ```typescript
+ * const oco = new OcoManager(sdk, { wsUrl, store: new FileStateStore("./oco.json") });
+ * oco.onLegFilled(({ group, legIndex }) => console.log(group.id, "leg", legIndex, "filled"));
+ * await oco.start();
+ * await oco.placeGroup([takeProfitLimit, reentryLimit]);
+ * ```
+ */
+export class OcoManager {
+  private ws?: WsClient;
+  private ownsWs = false;
+  private unsubscribeWs?: () => void;
+  private orderSubscription?: WsSubscription;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private groups = new Map<string, OcoGroup>();
+  private store: StateStore<OcoGroup[]>;
+  private resolving = new Set<string>();
+  private seq = 0;
+  private legFilledListeners = new Listeners<OcoLegEvent>();
+  private legCancelledListeners = new Listeners<OcoLegEvent>();
+  private groupDoneListeners = new Listeners<OcoGroup>();
+  private errorListeners = new Listeners<OcoErrorEvent>();
+
+  constructor(private sdk: DipCoinPerpSDK, private options: OcoManagerOptions = {}) {
+    this.store = options.store ?? new MemoryStateStore<OcoGroup[]>();
+  }
+
+  /**
+   * Restore persisted groups, subscribe to `order` updates and start polling.
+   * Restored groups are reconciled immediately.
+   */
+  async start(): Promise<void> {
+    const saved = (await this.store.load()) ?? [];
+    for (const group of saved) {
+      if (!this.groups.has(group.id)) this.groups.set(group.id, group);
+    }
+
+    if (!this.unsubscribeWs && (this.options.ws || this.options.wsUrl)) {
+      this.ws = this.options.ws ?? this.sdk.createWsClient({ url: this.options.wsUrl as string });
+      this.ownsWs = !this.options.ws;
+      this.unsubscribeWs = this.ws.onMessage((msg) => this.handleMessage(msg));
+      try {
+        if (this.ownsWs) await this.ws.connect();
+      } catch (error) {
+        // Reset so the next start() connects and subscribes again
+        this.unsubscribeWs();
+        this.unsubscribeWs = undefined;
+        if (this.ownsWs) {
+          this.ws.close();
+          this.ws = undefined;
+        }
+        throw error;
+      }
+      this.orderSubscription = this.ws.subscribe({ channel: "order" });
+    }
+
+    const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    if (!this.pollTimer && interval > 0) {
+      this.pollTimer = setInterval(() => void this.poll(), interval);
+    }
+    await this.poll();
+  }
+
+  /** Stop watching. Groups stay persisted and resume on the next `start()`. */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    this.unsubscribeWs?.();
+    this.unsubscribeWs = undefined;
+    this.orderSubscription?.unsubscribe();
+    this.orderSubscription = undefined;
+    if (this.ws && this.ownsWs) this.ws.close();
+    this.ws = undefined;
+  }
+
+  /** Track two existing orders / plans as an OCO group. */
+  async addGroup(input: OcoGroupInput): Promise<OcoGroup> {
+    const now = Date.now();
+    const group: OcoGroup = {
+      id: input.id ?? `oco-${now.toString(36)}-${++this.seq}`,
+      symbol: input.symbol,
+      parentAddress: input.parentAddress,
+      legs: [
+        { ...input.legs[0], status: "open" },
+        { ...input.legs[1], status: "open" },
+      ],
+      status: "active",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.groups.set(group.id, group);
+    await this.persist();
+    return group;
+  }
+
+  /**
+   * Place two regular orders and track them as an OCO group. If only one
+   * order is accepted it is cancelled again and the call fails.
+   */
+  async placeGroup(
+    orders: [PlaceOrderParams, PlaceOrderParams],
+    id?: string
+  ): Promise<SDKResponse<OcoGroup>> {
+    if (orders[0].symbol !== orders[1].symbol) {
+      return { status: false, error: "OCO legs must share the same symbol" };
+    }
+    const batch = await this.sdk.placeOrders(orders);
+    const results = batch.data?.results ?? [];
+    const hashes: (string | undefined)[] = [];
+    for (const result of results) {
+      let hash = result.status ? extractOrderHash(result.data?.data) : undefined;
+      if (result.status && !hash && result.data?.clientId) {
+        const lookup = await this.sdk.getOrderByClientId(result.data.clientId);
+        hash = lookup.data?.openOrder?.hash ?? lookup.data?.record.orderHash;
+      }
+      hashes.push(hash);
+    }
+
+    if (!hashes[0] || !hashes[1]) {
+      // Roll back whichever leg did get placed
+      for (const [index, result] of results.entries()) {
+        if (!result.status) continue;
+        const hash = hashes[index];
+        if (hash) {
+          await this.sdk.cancelOrder({
+            symbol: orders[index].symbol,
+            orderHashes: [hash],
+            parentAddress: orders[index].parentAddress,
+          });
+        } else if (result.data?.clientId) {
+          await this.sdk.cancelOrderByClientId(result.data.clientId);
+        }
+      }
+      const failure = results.find((r) => !r.status);
+      return {
+        status: false,
+        error: failure?.error || "Failed to resolve order hashes for the OCO legs",
+      };
+    }
+
+    const group = await this.addGroup({
+      id,
+      symbol: orders[0].symbol,
+      parentAddress: orders[0].parentAddress,
+      legs: [
+        { kind: "order", orderHash: hashes[0], clientId: results[0].data?.clientId },
+        { kind: "order", orderHash: hashes[1], clientId: results[1].data?.clientId },
+      ],
+    });
+    return { status: true, data: group };
+  }
+
+  /** Cancel both legs of a group. */
+  async cancelGroup(id: string): Promise<SDKResponse<OcoGroup>> {
+    const group = this.groups.get(id);
+    if (!group) return { status: false, error: `Unknown OCO group: ${id}` };
+    const errors: string[] = [];
+    for (const index of [0, 1] as const) {
+      if (group.legs[index].status !== "open") continue;
+      const result = await this.cancelLeg(group, index);
+      if (!result.status) errors.push(result.error || "Cancel failed");
+    }
+    group.status = errors.length > 0 ? "failed" : "cancelled";
+    group.error = errors.length > 0 ? errors.join("; ") : undefined;
+    group.updatedAt = Date.now();
+    await this.persist();
+    this.groupDoneListeners.emit(group);
+    return errors.length > 0
+      ? { status: false, error: group.error, data: group }
+      : { status: true, data: group };
+  }
+
+  /** Forget a group without touching its orders. */
+  async removeGroup(id: string): Promise<void> {
+    this.groups.delete(id);
+    await this.persist();
+  }
+
+  getGroup(id: string): OcoGroup | undefined {
+    return this.groups.get(id);
+  }
+
+  listGroups(): OcoGroup[] {
+    return Array.from(this.groups.values());
+  }
+
+  onLegFilled(cb: (event: OcoLegEvent) => void): () => void {
+    return this.legFilledListeners.add(cb);
+  }
+
+  onLegCancelled(cb: (event: OcoLegEvent) => void): () => void {
+    return this.legCancelledListeners.add(cb);
+  }
+
+  /** Fired when a group reaches a final state (completed / cancelled / failed). */
+  onGroupDone(cb: (group: OcoGroup) => void): () => void {
+    return this.groupDoneListeners.add(cb);
+  }
+
+  onError(cb: (event: OcoErrorEvent) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /** Reconcile active groups against REST state (open orders / position plans). */
+  async poll(): Promise<void> {
+    const active = this.listGroups().filter((g) => g.status === "active");
+    for (const group of active) {
+      try {
+        await this.pollGroup(group);
+      } catch (error) {
+        this.errorListeners.emit({ groupId: group.id, error: formatError(error) });
+      }
+    }
+  }
+
+  private async pollGroup(group: OcoGroup): Promise<void> {
+    const hasOrderLeg = group.legs.some((l) => l.kind === "order");
+    const open = hasOrderLeg
+      ? await this.sdk.getOpenOrders(group.symbol, group.parentAddress)
+      : undefined;
+    if (open && !open.status) throw new Error(open.error || "Failed to get open orders");
+
+    for (const index of [0, 1] as const) {
+      const leg = group.legs[index];
+      if (leg.status !== "open" || group.status !== "active") continue;
+      if (leg.kind === "order") {
+        const resting = open?.data?.find(
+          (o) => o.hash?.toLowerCase() === leg.orderHash.toLowerCase()
+        );
+        if (resting) {
+          if (this.isTrigger(classifyOrderStatus(resting.status))) {
+            await this.onLegFinal(group, index, "filled");
+          }
+          continue;
+        }
+        const outcome = await this.closedOrderOutcome(group, leg);
+        if (outcome) await this.onLegFinal(group, index, outcome);
+      } else if (leg.positionId !== undefined) {
+        const plans = await this.sdk.getPositionTpSl(leg.positionId, leg.tpslType);
+        if (!plans.status) continue;
+        const plan = plans.data?.find(
+          (p) =>
+            (leg.planId !== undefined && String(p.id) === String(leg.planId)) ||
+            (!!leg.hash && p.hash?.toLowerCase() === leg.hash.toLowerCase())
+        );
+        // A plan missing from the list is not proof of a trigger; keep the leg open
+        const outcome = plan ? classifyOrderStatus(plan.status) : "unknown";
+        if (outcome === "filled" || outcome === "cancelled") {
+          await this.onLegFinal(group, index, outcome);
+        }
+      }
+    }
+  }
+
+  /**
+   * Decide whether an order that left the book was filled or cancelled.
+   * Returns undefined while history has no explicit final status for it
+   * (lookup failed, not indexed yet), so the leg stays open until a later poll.
+   */
+  private async closedOrderOutcome(
+    group: OcoGroup,
+    leg: OcoOrderLeg
+  ): Promise<OcoLegStatus | undefined> {
+    for (let pageNum = 1; pageNum <= HISTORY_PAGES; pageNum++) {
+      const history = await this.sdk.getHistoryOrders({
+        symbol: group.symbol,
+        parentAddress: group.parentAddress,
+        startTime: group.createdAt - 60 * 1000,
+        pageNum,
+        pageSize: 100,
+      });
+      if (!history.status) return undefined;
+      const items = history.data?.items ?? [];
+      const order = items.find(
+        (o) =>
+          o.hash?.toLowerCase() === leg.orderHash.toLowerCase() ||
+          (!!leg.clientId && o.clientId === leg.clientId)
+      );
+      if (order) {
+        const statusClass = classifyOrderStatus(order.status);
+        if (this.isTrigger(statusClass)) return "filled";
+        return statusClass === "cancelled" ? "cancelled" : undefined;
+      }
+      if (items.length < 100 || pageNum >= (history.data?.totalPages ?? 0)) break;
+    }
+    return undefined;
+  }
+
+  private handleMessage(msg: unknown): void {
+    for (const update of payloadsOf(msg, "order")) {
+      for (const group of this.groups.values()) {
+        if (group.status !== "active") continue;
+        const index = group.legs.findIndex((leg) => this.legMatches(leg, update));
+        if (index < 0) continue;
+        const statusClass = classifyOrderStatus(
+          stringField(update, "status") ?? stringField(update, "orderStatus")
+        );
+        if (this.isTrigger(statusClass)) {
+          void this.onLegFinal(group, index as 0 | 1, "filled");
+        } else if (statusClass === "cancelled") {
+          void this.onLegFinal(group, index as 0 | 1, "cancelled");
+        }
+      }
+    }
+  }
+
+  private legMatches(leg: OcoLegState, update: WsPayload): boolean {
+    const hash = typeof update.hash === "string" ? update.hash.toLowerCase() : undefined;
+    if (leg.kind === "order") {
+      return (
+        hash === leg.orderHash.toLowerCase() || (!!leg.clientId && update.clientId === leg.clientId)
+      );
+    }
+    return (
+      (!!leg.hash && hash === leg.hash.toLowerCase()) ||
+      (leg.planId !== undefined &&
+        update.planId !== undefined &&
+        String(update.planId) === String(leg.planId))
+    );
+  }
+
+  private isTrigger(statusClass: string): boolean {
+    return (
+      statusClass === "filled" ||
+      (statusClass === "partiallyFilled" && (this.options.triggerOnPartialFill ?? true))
+    );
+  }
+
+  /**
+   * A leg reached a final state: cancel the sibling and settle the group.
+   * Guarded so concurrent WS and polling updates resolve a group once.
+   */
+  private async onLegFinal(group: OcoGroup, index: 0 | 1, outcome: OcoLegStatus): Promise<void> {
+    if (group.status !== "active" || this.resolving.has(group.id)) return;
+    this.resolving.add(group.id);
+    try {
+      group.legs[index].status = outcome;
+      group.updatedAt = Date.now();
+      if (outcome === "filled") {
+        group.filledLeg = index;
+        this.legFilledListeners.emit({ group, legIndex: index });
+      } else {
+        this.legCancelledListeners.emit({ group, legIndex: index, byManager: false });
+      }
+
+      const sibling = index === 0 ? 1 : 0;
+      const result = await this.cancelLeg(group, sibling);
+      if (result.status) {
+        group.status = outcome === "filled" ? "completed" : "cancelled";
+      } else {
+        group.status = "failed";
+        group.error = `Failed to cancel leg ${sibling}: ${result.error}`;
+        this.errorListeners.emit({ groupId: group.id, error: group.error });
+      }
+      group.updatedAt = Date.now();
+      await this.persist();
+      this.groupDoneListeners.emit(group);
+    } finally {
+      this.resolving.delete(group.id);
+    }
+  }
+
+  private async cancelLeg(group: OcoGroup, index: 0 | 1): Promise<SDKResponse> {
+    const leg = group.legs[index];
+    if (leg.status !== "open") return { status: true };
+    const result =
+      leg.kind === "order"
+        ? await this.sdk.cancelOrder({
+            symbol: group.symbol,
+            orderHashes: [leg.orderHash],
+            parentAddress: group.parentAddress,
+          })
+        : await this.sdk.cancelPlanOrder({
+            planId: leg.planId,
+            hash: leg.hash,
+            symbol: group.symbol,
+            parentAddress: group.parentAddress,
+          });
+    if (result.status) {
+      leg.status = "cancelled";
+      this.legCancelledListeners.emit({ group, legIndex: index, byManager: true });
+    }
+    return result;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.store.save(this.listGroups());
+    } catch (error) {
+      this.errorListeners.emit({
+        groupId: "*",
+        error: `Failed to persist OCO state: ${formatError(error)}`,
+      });
+    }
+  }
+}
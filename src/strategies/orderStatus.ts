@@ -0,0 +1,77 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Coarse classification of backend order / plan statuses for the strategy
+ * managers, and fill lookup of their child orders. Status strings vary
+ * between regular and plan orders, so matching is by keyword.
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import { formatWeiToNormal } from "../utils";
+
+export type OrderStatusClass = "open" | "partiallyFilled" | "filled" | "cancelled" | "unknown";
+
+export function classifyOrderStatus(status?: string): OrderStatusClass {
+  if (!status) return "unknown";
+  const s = status.toUpperCase();
+  if (s.includes("CANCEL") || s.includes("EXPIRE") || s.includes("REJECT") || s.includes("FAIL")) {
+    return "cancelled";
+  }
+  if (s.includes("PARTIAL")) return "partiallyFilled";
+  if (s.includes("FILL") || s.includes("TRIGGER") || s.includes("EXECUT") || s.includes("DONE")) {
+    return "filled";
+  }
+  if (s.includes("OPEN") || s.includes("NEW") || s.includes("PENDING") || s.includes("ACTIVE")) {
+    return "open";
+  }
+  return "unknown";
+}
+
+/** Fill state of an order placed by a strategy, in normal units. */
+export interface ChildOrderFill {
+  /** "open" while resting, otherwise the final outcome */
+  state: "open" | "filled" | "cancelled";
+  filledQuantity: string;
+  averagePrice?: string;
+  orderHash?: string;
+}
+
+/**
+ * Look up an order placed with `clientId` through `getOrderByClientId`.
+ * Returns undefined while the order is not visible yet. An order that left
+ * the book is "filled" unless history reports it cancelled with a partial
+ * (or no) fill.
+ */
+export async function fetchChildOrderFill(
+  sdk: DipCoinPerpSDK,
+  clientId: string,
+  quantity: BigNumber.Value
+): Promise<ChildOrderFill | undefined> {
+  const lookup = await sdk.getOrderByClientId(clientId);
+  if (!lookup.status || !lookup.data) return undefined;
+  const { openOrder, historyOrder } = lookup.data;
+  if (openOrder) {
+    const statusClass = classifyOrderStatus(openOrder.status);
+    return {
+      state: statusClass === "filled" || statusClass === "cancelled" ? statusClass : "open",
+      // Open order quantities are in wei
+      filledQuantity: formatWeiToNormal(openOrder.filledQty || 0),
+      orderHash: openOrder.hash,
+    };
+  }
+  if (historyOrder) {
+    const filledQuantity = new BigNumber(historyOrder.filledQty || 0).toString(10);
+    const filledAll = new BigNumber(filledQuantity).gte(quantity);
+    return {
+      state:
+        filledAll || classifyOrderStatus(historyOrder.status) !== "cancelled"
+          ? "filled"
+          : "cancelled",
+      filledQuantity,
+      averagePrice: historyOrder.avgPrice,
+      orderHash: historyOrder.hash,
+    };
+  }
+  return undefined;
+}
@@ -0,0 +1,532 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Pegged (chasing) limit orders: a LIMIT order kept at the touch (best bid
+ * for buys, best ask for sells) or at mid, plus an optional offset. An
+ * {@link OrderBookStore} (REST snapshot plus `orderBook` WS deltas) drives
+ * re-pricing, which cancels and re-places the unfilled remainder, rate
+ * limited and bounded by a max-chase price. After `timeoutMs` the remainder
+ * is sent as a MARKET order (or cancelled).
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import { OrderBookChangeEvent, OrderBookStore } from "../services/orderBookStore";
+import type { WsClient } from "../services/wsClient";
+import type { WsSubscription } from "../services/wsSubscription";
+import { OrderSide, OrderType, SDKResponse, TimeInForce } from "../types";
+import { snapToIncrement } from "../trading";
+import { formatError, formatWeiToNormal } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { fetchChildOrderFill } from "./orderStatus";
+import { payloadsOf } from "../services/wsPayloads";
+
+export interface PeggedOrderParams {
+  symbol: string;
+  side: OrderSide;
+  quantity: number | string;
+  leverage: number | string;
+  reduceOnly?: boolean;
+  parentAddress?: string;
+  /** Reference price: "best" (same-side touch, default) or "mid" */
+  peg?: "best" | "mid";
+  /**
+   * Distance from the reference towards the passive side (below for buys,
+   * above for sells). Negative values step inside the spread.
+   */
+  offset?: number | string;
+  /** Never chase beyond this price (buys: above, sells: below) */
+  maxChasePrice?: number | string;
+  /** Minimum time between re-prices in ms (default 1000) */
+  minRepriceIntervalMs?: number;
+  /** Give up pegging after this many ms */
+  timeoutMs?: number;
+  /** What to do with the remainder on timeout (default "market") */
+  onTimeout?: "market" | "cancel";
+  /** Slippage bound of the timeout MARKET order (see `PlaceOrderParams.maxSlippage`) */
+  timeoutMaxSlippage?: number | true;
+  /** "GTC" (default) or "POST_ONLY" for the resting orders */
+  timeInForce?: Extract<TimeInForce, "GTC" | "POST_ONLY">;
+}
+
+export interface PeggedOrderOptions {
+  /** Existing WS client to share (caller owns its connection) */
+  ws?: WsClient;
+  /** WS URL used to create an SDK-authenticated client when `ws` is omitted */
+  wsUrl?: string;
+  /**
+   * Existing order book for the symbol to peg against (caller owns it). By
+   * default the order keeps its own {@link OrderBookStore} on the WS client.
+   */
+  book?: OrderBookStore;
+  /** Fill polling interval in ms (default 5000, 0 disables) */
+  pollIntervalMs?: number;
+}
+
+export type PeggedOrderStatus = "pending" | "working" | "completed" | "cancelled" | "failed";
+
+export interface PeggedChildOrder {
+  clientId: string;
+  orderType: OrderType;
+  price?: string;
+  quantity: string;
+  filledQuantity: string;
+  averagePrice?: string;
+  status: "open" | "filled" | "cancelled";
+}
+
+export interface PeggedOrderState {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  status: PeggedOrderStatus;
+  quantity: string;
+  filledQuantity: string;
+  remainingQuantity: string;
+  averagePrice?: string;
+  /** Price of the resting order */
+  currentPrice?: string;
+  bestBid?: string;
+  bestAsk?: string;
+  reprices: number;
+  /** True once the remainder was sent as a MARKET order on timeout */
+  convertedToMarket: boolean;
+  children: PeggedChildOrder[];
+  error?: string;
+}
+
+const DEFAULT_REPRICE_INTERVAL_MS = 1000;
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+/** Fill lookups of the timeout MARKET order before giving up on confirmation */
+const MARKET_FILL_CHECKS = 5;
+const MARKET_FILL_CHECK_INTERVAL_MS = 1000;
+
+/**
+ * @example
+ * ```typescript
+ * const pegged = new PeggedOrder(sdk, {
+ *   symbol: "BTC-PERP", side: OrderSide.BUY, quantity: "0.5", leverage: 5,
+ *   maxChasePrice: "96000", timeoutMs: 60_000,
+ * }, { wsUrl });
+ * pegged.onDone((state) => console.log(state.status, state.averagePrice));
+ * await pegged.start();
+ * ```
+ */
+export class PeggedOrder {
+  readonly id: string;
+  private ws?: WsClient;
+  private ownsWs = false;
+  private unsubscribeWs?: () => void;
+  private orderSubscription?: WsSubscription;
+  private book?: OrderBookStore;
+  private unsubscribeBook?: () => void;
+  private pollTimer?: ReturnType<typeof setInterval>;
+  private timeoutTimer?: ReturnType<typeof setTimeout>;
+  private repriceTimer?: ReturnType<typeof setTimeout>;
+  private queue: Promise<void> = Promise.resolve();
+  private repriceQueued = false;
+  private lastRepriceAt = 0;
+  private tickSize = "0";
+  private stepSize = "0";
+  private minTradeQty = "0";
+  private state: PeggedOrderState;
+  private repriceListeners = new Listeners<PeggedOrderState>();
+  private fillListeners = new Listeners<PeggedOrderState>();
+  private doneListeners = new Listeners<PeggedOrderState>();
+  private errorListeners = new Listeners<string>();
+
+  constructor(
+    private sdk: DipCoinPerpSDK,
+    private params: PeggedOrderParams,
+    private options: PeggedOrderOptions = {}
+  ) {
+    if (!options.ws && !options.wsUrl) {
+      throw new Error("PeggedOrder requires `ws` or `wsUrl`");
+    }
+    if (options.book && options.book.getBook().symbol !== params.symbol) {
+      throw new Error(`book is for ${options.book.getBook().symbol}, not ${params.symbol}`);
+    }
+    const quantity = new BigNumber(params.quantity);
+    if (quantity.isNaN() || quantity.lte(0)) throw new Error("quantity must be greater than zero");
+    this.id = `peg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.state = {
+      id: this.id,
+      symbol: params.symbol,
+      side: params.side,
+      status: "pending",
+      quantity: quantity.toString(10),
+      filledQuantity: "0",
+      remainingQuantity: quantity.toString(10),
+      reprices: 0,
+      convertedToMarket: false,
+      children: [],
+    };
+  }
+
+  getState(): PeggedOrderState {
+    return { ...this.state, children: this.state.children.map((c) => ({ ...c })) };
+  }
+
+  /** Fired after the order was moved to a new price. */
+  onReprice(cb: (state: PeggedOrderState) => void): () => void {
+    return this.repriceListeners.add(cb);
+  }
+
+  onFill(cb: (state: PeggedOrderState) => void): () => void {
+    return this.fillListeners.add(cb);
+  }
+
+  /** Fired once the order completes, is cancelled or fails. */
+  onDone(cb: (state: PeggedOrderState) => void): () => void {
+    return this.doneListeners.add(cb);
+  }
+
+  onError(cb: (error: string) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /** Place the order at the current peg and start following the book. */
+  async start(): Promise<SDKResponse<PeggedOrderState>> {
+    if (this.state.status !== "pending") {
+      return { status: false, error: `Pegged order already ${this.state.status}` };
+    }
+    try {
+      const spec = await this.sdk.getMarketSpec(this.params.symbol);
+      if (!spec.status || !spec.data) {
+        return { status: false, error: spec.error || "Market spec not found" };
+      }
+      this.tickSize = spec.data.tickSize;
+      this.stepSize = spec.data.stepSize;
+      this.minTradeQty = spec.data.minTradeQty;
+
+      this.ws = this.options.ws ?? this.sdk.createWsClient({ url: this.options.wsUrl as string });
+      this.ownsWs = !this.options.ws;
+      this.unsubscribeWs = this.ws.onMessage((msg) => this.handleMessage(msg));
+      if (this.ownsWs) await this.ws.connect();
+      this.orderSubscription = this.ws.subscribe({ channel: "order" });
+
+      this.book =
+        this.options.book ??
+        new OrderBookStore(this.sdk, { symbol: this.params.symbol, ws: this.ws });
+      this.unsubscribeBook = this.book.onChange((event) => this.handleBookChange(event));
+      if (!this.options.book || !this.book.isReady()) await this.book.start();
+      this.state.bestBid = this.normalPrice(this.book.bestBid()?.price);
+      this.state.bestAsk = this.normalPrice(this.book.bestAsk()?.price);
+
+      const price = this.targetPrice();
+      if (!price) {
+        this.finish("failed", "No reference price in the order book");
+        return { status: false, error: this.state.error };
+      }
+
+      this.state.status = "working";
+      const placed = await this.placeLimit(price, this.state.remainingQuantity);
+      if (!placed.status) {
+        this.finish("failed", placed.error);
+        return { status: false, error: placed.error, data: this.getState() };
+      }
+      this.lastRepriceAt = Date.now();
+
+      const interval = this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+      if (interval > 0) {
+        this.pollTimer = setInterval(() => void this.exclusive(() => this.sync()), interval);
+      }
+      if (this.params.timeoutMs !== undefined) {
+        this.timeoutTimer = setTimeout(
+          () => void this.exclusive(() => this.expire()),
+          this.params.timeoutMs
+        );
+      }
+      return { status: true, data: this.getState() };
+    } catch (error) {
+      this.finish("failed", formatError(error));
+      return { status: false, error: formatError(error) };
+    }
+  }
+
+  /** Cancel the resting order and stop pegging. */
+  cancel(): Promise<SDKResponse<PeggedOrderState>> {
+    let result: SDKResponse<PeggedOrderState> = { status: true, data: this.getState() };
+    return this.exclusive(async () => {
+      if (this.state.status !== "working") return;
+      const cancelled = await this.withdrawResting();
+      this.finish(cancelled.status ? "cancelled" : "failed", cancelled.error);
+      result = cancelled.status
+        ? { status: true, data: this.getState() }
+        : { status: false, error: cancelled.error, data: this.getState() };
+    }).then(() => result);
+  }
+
+  /**
+   * Price the order should rest at: the reference moved by `offset`, snapped
+   * to the tick on the passive side and capped at `maxChasePrice`.
+   */
+  private targetPrice(): string | undefined {
+    const { bestBid, bestAsk } = this.state;
+    const isBuy = this.params.side === OrderSide.BUY;
+    let reference: BigNumber | undefined;
+    if ((this.params.peg ?? "best") === "mid") {
+      if (!bestBid || !bestAsk) return undefined;
+      reference = new BigNumber(bestBid).plus(bestAsk).dividedBy(2);
+    } else {
+      const touch = isBuy ? bestBid : bestAsk;
+      reference = touch ? new BigNumber(touch) : undefined;
+    }
+    if (!reference) return undefined;
+
+    const offset = new BigNumber(this.params.offset ?? 0);
+    let price = isBuy ? reference.minus(offset) : reference.plus(offset);
+    price = new BigNumber(snapToIncrement(price, this.tickSize, isBuy ? "floor" : "ceil"));
+    if (this.params.maxChasePrice !== undefined) {
+      price = isBuy
+        ? BigNumber.min(price, this.params.maxChasePrice)
+        : BigNumber.max(price, this.params.maxChasePrice);
+    }
+    return price.gt(0) ? price.toString(10) : undefined;
+  }
+
+  /** Follow the touch of the maintained book (snapshot plus deltas). */
+  private handleBookChange(event: OrderBookChangeEvent): void {
+    const bestBid = this.normalPrice(event.bestBid?.price);
+    const bestAsk = this.normalPrice(event.bestAsk?.price);
+    if (bestBid === this.state.bestBid && bestAsk === this.state.bestAsk) return;
+    this.state.bestBid = bestBid;
+    this.state.bestAsk = bestAsk;
+    this.scheduleReprice();
+  }
+
+  /** Book levels are in wei, like the REST order book. */
+  private normalPrice(wei?: string): string | undefined {
+    return wei !== undefined ? formatWeiToNormal(wei) : undefined;
+  }
+
+  private handleMessage(msg: unknown): void {
+    for (const update of payloadsOf(msg, "order")) {
+      const child = this.restingChild();
+      if (child && update.clientId === child.clientId) {
+        void this.exclusive(() => this.sync());
+      }
+    }
+  }
+
+  /** Queue a re-price, respecting `minRepriceIntervalMs`. */
+  private scheduleReprice(): void {
+    if (this.state.status !== "working" || this.repriceQueued || this.repriceTimer) return;
+    const interval = this.params.minRepriceIntervalMs ?? DEFAULT_REPRICE_INTERVAL_MS;
+    const wait = this.lastRepriceAt + interval - Date.now();
+    if (wait > 0) {
+      this.repriceTimer = setTimeout(() => {
+        this.repriceTimer = undefined;
+        this.scheduleReprice();
+      }, wait);
+      return;
+    }
+    this.repriceQueued = true;
+    void this.exclusive(async () => {
+      this.repriceQueued = false;
+      await this.reprice();
+    });
+  }
+
+  private async reprice(): Promise<void> {
+    if (this.state.status !== "working") return;
+    const target = this.targetPrice();
+    const child = this.restingChild();
+    if (!target || (child?.price && new BigNumber(child.price).eq(target))) return;
+
+    const withdrawn = await this.withdrawResting();
+    if (!withdrawn.status) {
+      this.errorListeners.emit(withdrawn.error || "Failed to cancel pegged order");
+      return;
+    }
+    if (this.settleIfDone()) return;
+    this.lastRepriceAt = Date.now();
+    const placed = await this.placeLimit(target, this.state.remainingQuantity);
+    if (!placed.status) {
+      this.finish("failed", placed.error);
+      return;
+    }
+    this.state.reprices++;
+    this.repriceListeners.emit(this.getState());
+  }
+
+  /** Timeout: send the remainder as a MARKET order, or cancel it. */
+  private async expire(): Promise<void> {
+    if (this.state.status !== "working") return;
+    const withdrawn = await this.withdrawResting();
+    if (!withdrawn.status) {
+      this.finish("failed", withdrawn.error);
+      return;
+    }
+    if (this.settleIfDone()) return;
+    if ((this.params.onTimeout ?? "market") === "cancel") {
+      this.finish("cancelled", "Pegged order timed out");
+      return;
+    }
+
+    const quantity = snapToIncrement(this.state.remainingQuantity, this.stepSize, "floor");
+    const response = await this.sdk.placeOrder({
+      symbol: this.params.symbol,
+      side: this.params.side,
+      orderType: OrderType.MARKET,
+      quantity,
+      leverage: this.params.leverage,
+      reduceOnly: this.params.reduceOnly,
+      parentAddress: this.params.parentAddress,
+      maxSlippage: this.params.timeoutMaxSlippage,
+    });
+    this.state.convertedToMarket = true;
+    if (!response.status || !response.data?.clientId) {
+      this.finish("failed", response.error || "Timeout market order failed");
+      return;
+    }
+    const child: PeggedChildOrder = {
+      clientId: response.data.clientId,
+      orderType: OrderType.MARKET,
+      quantity,
+      filledQuantity: "0",
+      status: "open",
+    };
+    this.state.children.push(child);
+    // Only settle on a confirmed fill; history can lag behind the order
+    for (let check = 0; check < MARKET_FILL_CHECKS; check++) {
+      if (check > 0) {
+        await new Promise((resolve) => setTimeout(resolve, MARKET_FILL_CHECK_INTERVAL_MS));
+      }
+      await this.refreshChild(child);
+      if (child.status !== "open") break;
+    }
+    if (this.settleIfDone()) return;
+    this.finish(
+      "failed",
+      child.status === "open"
+        ? `Timeout market order ${child.clientId} sent, fill not confirmed`
+        : `Timeout market order left ${this.state.remainingQuantity} unfilled`
+    );
+  }
+
+  /** Refresh fills of the resting order and settle when it is done. */
+  private async sync(): Promise<void> {
+    if (this.state.status !== "working") return;
+    const child = this.restingChild();
+    if (!child) return;
+    await this.refreshChild(child);
+    if (this.settleIfDone()) return;
+    if (child.status === "cancelled") {
+      this.finish("cancelled", "Pegged order was cancelled outside the manager");
+    }
+  }
+
+  /** Cancel the resting order (if any) and record its final fill. */
+  private async withdrawResting(): Promise<SDKResponse> {
+    const child = this.restingChild();
+    if (!child) return { status: true };
+    const result = await this.sdk.cancelOrderByClientId(child.clientId);
+    await this.refreshChild(child);
+    if (result.status) {
+      if (child.status === "open") child.status = "cancelled";
+      return { status: true };
+    }
+    // The cancel fails when the order already filled
+    return child.status === "open" ? { status: false, error: result.error } : { status: true };
+  }
+
+  private async placeLimit(price: string, remaining: string): Promise<SDKResponse> {
+    const quantity = snapToIncrement(remaining, this.stepSize, "floor");
+    const response = await this.sdk.placeOrder({
+      symbol: this.params.symbol,
+      side: this.params.side,
+      orderType: OrderType.LIMIT,
+      price,
+      quantity,
+      leverage: this.params.leverage,
+      reduceOnly: this.params.reduceOnly,
+      timeInForce: this.params.timeInForce,
+      parentAddress: this.params.parentAddress,
+    });
+    if (!response.status || !response.data?.clientId) {
+      return { status: false, error: response.error || "Failed to place pegged order" };
+    }
+    this.state.children.push({
+      clientId: response.data.clientId,
+      orderType: OrderType.LIMIT,
+      price,
+      quantity,
+      filledQuantity: "0",
+      status: "open",
+    });
+    this.state.currentPrice = price;
+    return { status: true };
+  }
+
+  private async refreshChild(child: PeggedChildOrder): Promise<void> {
+    const fill = await fetchChildOrderFill(this.sdk, child.clientId, child.quantity);
+    if (!fill) return;
+    if (fill.state !== "open") child.status = fill.state;
+    if (fill.averagePrice) child.averagePrice = fill.averagePrice;
+    if (new BigNumber(fill.filledQuantity).lte(child.filledQuantity)) return;
+    child.filledQuantity = fill.filledQuantity;
+
+    let filled = new BigNumber(0);
+    let notional = new BigNumber(0);
+    for (const c of this.state.children) {
+      const qty = new BigNumber(c.filledQuantity);
+      filled = filled.plus(qty);
+      notional = notional.plus(qty.multipliedBy(c.averagePrice ?? c.price ?? 0));
+    }
+    this.state.filledQuantity = filled.toString(10);
+    this.state.remainingQuantity = BigNumber.max(
+      new BigNumber(this.state.quantity).minus(filled),
+      0
+    ).toString(10);
+    this.state.averagePrice = filled.gt(0) ? notional.dividedBy(filled).toString(10) : undefined;
+    this.fillListeners.emit(this.getState());
+  }
+
+  /** Complete when the remainder is no longer tradeable. */
+  private settleIfDone(): boolean {
+    const remaining = new BigNumber(
+      snapToIncrement(this.state.remainingQuantity, this.stepSize, "floor")
+    );
+    if (remaining.gt(0) && remaining.gte(this.minTradeQty || 0)) return false;
+    if (this.restingChild()) return false;
+    this.finish("completed");
+    return true;
+  }
+
+  private restingChild(): PeggedChildOrder | undefined {
+    return this.state.children.find((c) => c.status === "open");
+  }
+
+  /** Run state changes one at a time (book updates, polling, timeout, cancel). */
+  private exclusive(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error) => {
+      this.errorListeners.emit(formatError(error));
+    });
+    return this.queue;
+  }
+
+  private finish(status: PeggedOrderStatus, error?: string): void {
+    this.state.status = status;
+    this.state.error = error;
+    this.state.currentPrice = undefined;
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.timeoutTimer) clearTimeout(this.timeoutTimer);
+    if (this.repriceTimer) clearTimeout(this.repriceTimer);
+    this.pollTimer = this.timeoutTimer = this.repriceTimer = undefined;
+    this.unsubscribeWs?.();
+    this.unsubscribeWs = undefined;
+    this.orderSubscription?.unsubscribe();
+    this.orderSubscription = undefined;
+    this.unsubscribeBook?.();
+    this.unsubscribeBook = undefined;
+    if (this.book && this.book !== this.options.book) this.book.stop();
+    this.book = undefined;
+    if (this.ws) {
+      if (this.ownsWs) this.ws.close();
+      this.ws = undefined;
+    }
+    if (error) this.errorListeners.emit(error);
+    this.doneListeners.emit(this.getState());
+  }
+}
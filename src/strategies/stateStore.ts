@@ -0,0 +1,53 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Persistence for strategy managers, so armed groups / conditions survive a
+ * process restart. State is a JSON-serializable value saved as a whole.
+ */
+import fs from "fs";
+import path from "path";
+
+export interface StateStore<T> {
+  /** Load the last saved state (undefined when nothing was saved yet). */
+  load(): Promise<T | undefined>;
+  save(state: T): Promise<void>;
+}
+
+/** Process-local store (the default; state is lost on restart). */
+export class MemoryStateStore<T> implements StateStore<T> {
+  private state?: string;
+
+  async load(): Promise<T | undefined> {
+    return this.state === undefined ? undefined : (JSON.parse(this.state) as T);
+  }
+
+  async save(state: T): Promise<void> {
+    this.state = JSON.stringify(state);
+  }
+}
+
+/**
+ * JSON file store (Node.js only). Writes go to a temp file that is renamed
+ * over the target, so a crash mid-write never leaves a truncated file.
+ */
+export class FileStateStore<T> implements StateStore<T> {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<T | undefined> {
+    try {
+      const raw = await fs.promises.readFile(this.filePath, "utf-8");
+      return raw.trim() ? (JSON.parse(raw) as T) : undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async save(state: T): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(state, null, 2), "utf-8");
+    await fs.promises.rename(tmp, this.filePath);
+  }
+}
@@ -0,0 +1,383 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Client-side trailing stops. Tracks the high-water (long) or low-water
+ * (short) mark from the `ticker` WS channel and closes the position with a
+ * reduce-only order once price retraces by the configured distance. An
+ * on-exchange SL plan can optionally be ratcheted along with the stop, so
+ * protection survives if the process dies.
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import type { WsClient } from "../services/wsClient";
+import type { WsSubscription } from "../services/wsSubscription";
+import { OrderResponse, OrderSide, OrderType, SDKResponse } from "../types";
+import { formatError, formatWeiToNormal } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { payloadsOf, stringField } from "../services/wsPayloads";
+
+/** Trailing stop configuration for one position. */
+export interface TrailingStopConfig {
+  /** Optional id (generated when omitted) */
+  id?: string;
+  symbol: string;
+  /** Side of the position being protected */
+  isLong: boolean;
+  /** Quantity to close when the stop fires (normal units) */
+  quantity: number | string;
+  /** Position leverage */
+  leverage: number | string;
+  /** Absolute trail distance (price units); either this or `trailPercent` */
+  trailDistance?: number | string;
+  /** Trail distance as a fraction of the water mark (0.02 = 2%) */
+  trailPercent?: number;
+  /** Only start trailing once price reaches this level */
+  activationPrice?: number | string;
+  /** Ticker field used as the trailing price (default "mark") */
+  priceSource?: "mark" | "last";
+  /** Slippage bound for the closing order (see `PlaceOrderParams.maxSlippage`) */
+  maxSlippage?: number | true;
+  parentAddress?: string;
+  /**
+   * Ratchet an existing position SL plan (via `placePositionTpSlOrders` with
+   * `planId`) to the current stop level.
+   */
+  slPlan?: {
+    planId: string | number;
+    /** Minimum stop improvement before the plan is edited (default 0) */
+    minStep?: number | string;
+    /** Minimum time between plan edits in ms (default 5000) */
+    minIntervalMs?: number;
+  };
+}
+
+export type TrailingStopStatus = "pending" | "trailing" | "triggered" | "failed";
+
+/** Live state of a trailing stop. */
+export interface TrailingStopState {
+  id: string;
+  config: TrailingStopConfig;
+  status: TrailingStopStatus;
+  /** Best price seen since activation */
+  waterMark?: string;
+  /** Current stop level */
+  stopPrice?: string;
+  /** Last stop level written to the SL plan */
+  planStopPrice?: string;
+  lastPrice?: string;
+  /** Failed close attempts since the stop was last hit */
+  closeAttempts?: number;
+  /** No close is retried before this time (ms) */
+  retryAt?: number;
+}
+
+export interface TrailingStopTriggerEvent {
+  state: TrailingStopState;
+  response: SDKResponse<OrderResponse>;
+}
+
+export interface TrailingStopErrorEvent {
+  id: string;
+  error: string;
+}
+
+export interface TrailingStopManagerOptions {
+  /** Existing WS client to share (caller owns its connection) */
+  ws?: WsClient;
+  /** WS URL used to create an SDK-authenticated client when `ws` is omitted */
+  wsUrl?: string;
+}
+
+const DEFAULT_PLAN_INTERVAL_MS = 5000;
+const CLOSE_RETRY_BASE_MS = 1000;
+const CLOSE_RETRY_MAX_MS = 30000;
+
+/**
+ * @example
+ * ```typescript
+ * const trailing = new TrailingStopManager(sdk, { wsUrl: "wss://ws.dipcoin.io/v1" });
+ * trailing.onTrigger(({ state, response }) => console.log(state.id, response.status));
+ * trailing.add({ symbol: "BTC-PERP", isLong: true, quantity: "0.1", leverage: 10, trailPercent: 0.02 });
+ * await trailing.start();
+ * ```
+ */
+export class TrailingStopManager {
+  private ws?: WsClient;
+  private ownsWs = false;
+  private unsubscribeWs?: () => void;
+  /** Ticker subscription handles by symbol, released on stop */
+  private tickerSubscriptions = new Map<string, WsSubscription>();
+  private stops = new Map<string, TrailingStopState>();
+  private symbols = new Set<string>();
+  private lastPlanEdit = new Map<string, number>();
+  private firing = new Set<string>();
+  private seq = 0;
+  private triggerListeners = new Listeners<TrailingStopTriggerEvent>();
+  private updateListeners = new Listeners<TrailingStopState>();
+  private errorListeners = new Listeners<TrailingStopErrorEvent>();
+
+  constructor(private sdk: DipCoinPerpSDK, private options: TrailingStopManagerOptions = {}) {
+    if (!options.ws && !options.wsUrl) {
+      throw new Error("TrailingStopManager requires `ws` or `wsUrl`");
+    }
+  }
+
+  /** Start a trailing stop. Returns its id. */
+  add(config: TrailingStopConfig): string {
+    if (config.trailDistance === undefined && config.trailPercent === undefined) {
+      throw new Error("trailDistance or trailPercent is required");
+    }
+    if (
+      config.trailPercent !== undefined &&
+      (config.trailPercent <= 0 || config.trailPercent >= 1)
+    ) {
+      throw new Error("trailPercent must be between 0 and 1");
+    }
+    if (config.trailDistance !== undefined && new BigNumber(config.trailDistance).lte(0)) {
+      throw new Error("trailDistance must be greater than zero");
+    }
+    const id = config.id ?? `trail-${Date.now().toString(36)}-${++this.seq}`;
+    this.stops.set(id, {
+      id,
+      config,
+      status: config.activationPrice !== undefined ? "pending" : "trailing",
+    });
+    this.watchSymbol(config.symbol);
+    return id;
+  }
+
+  /** Stop tracking a trailing stop (the SL plan, if any, is left in place). */
+  remove(id: string): void {
+    this.stops.delete(id);
+    this.lastPlanEdit.delete(id);
+  }
+
+  get(id: string): TrailingStopState | undefined {
+    return this.stops.get(id);
+  }
+
+  list(): TrailingStopState[] {
+    return Array.from(this.stops.values());
+  }
+
+  /** Connect (when the manager owns the WS client) and subscribe to tickers. */
+  async start(): Promise<void> {
+    if (this.unsubscribeWs) return;
+    if (!this.ws) {
+      this.ws = this.options.ws ?? this.sdk.createWsClient({ url: this.options.wsUrl as string });
+      this.ownsWs = !this.options.ws;
+    }
+    this.unsubscribeWs = this.ws.onMessage((msg) => this.handleMessage(msg));
+    try {
+      if (this.ownsWs) await this.ws.connect();
+    } catch (error) {
+      // Reset so the next start() connects and subscribes again
+      this.unsubscribeWs();
+      this.unsubscribeWs = undefined;
+      if (this.ownsWs) {
+        this.ws.close();
+        this.ws = undefined;
+      }
+      throw error;
+    }
+    for (const symbol of this.symbols) this.subscribeTicker(symbol);
+  }
+
+  /** Unsubscribe and, when owned, close the WS client. Stops stay registered. */
+  stop(): void {
+    this.unsubscribeWs?.();
+    this.unsubscribeWs = undefined;
+    // Release only this manager's handles; other consumers keep their tickers
+    for (const subscription of this.tickerSubscriptions.values()) subscription.unsubscribe();
+    this.tickerSubscriptions.clear();
+    if (this.ws) {
+      if (this.ownsWs) {
+        this.ws.close();
+        this.ws = undefined;
+      }
+    }
+  }
+
+  onTrigger(cb: (event: TrailingStopTriggerEvent) => void): () => void {
+    return this.triggerListeners.add(cb);
+  }
+
+  /** Fired whenever the water mark / stop level of a trailing stop moves. */
+  onUpdate(cb: (state: TrailingStopState) => void): () => void {
+    return this.updateListeners.add(cb);
+  }
+
+  onError(cb: (event: TrailingStopErrorEvent) => void): () => void {
+    return this.errorListeners.add(cb);
+  }
+
+  /**
+   * Feed a price (normal units) for a symbol. Called for every ticker update;
+   * can also be used to drive the manager from another price source.
+   */
+  async updatePrice(
+    symbol: string,
+    price: BigNumber.Value,
+    source: "mark" | "last" = "mark"
+  ): Promise<void> {
+    const px = new BigNumber(price);
+    if (px.isNaN() || px.lte(0)) return;
+    for (const state of this.stops.values()) {
+      if (state.config.symbol !== symbol) continue;
+      if ((state.config.priceSource ?? "mark") !== source) continue;
+      await this.evaluate(state, px);
+    }
+  }
+
+  private watchSymbol(symbol: string): void {
+    if (this.symbols.has(symbol)) return;
+    this.symbols.add(symbol);
+    if (this.unsubscribeWs) this.subscribeTicker(symbol);
+  }
+
+  private subscribeTicker(symbol: string): void {
+    if (!this.ws || this.tickerSubscriptions.has(symbol)) return;
+    this.tickerSubscriptions.set(symbol, this.ws.subscribe({ channel: "ticker", symbol }));
+  }
+
+  private handleMessage(msg: unknown): void {
+    for (const ticker of payloadsOf(msg, "ticker")) {
+      const symbol = stringField(ticker, "symbol");
+      if (!symbol) continue;
+      // Ticker prices are in wei, like the REST ticker
+      const markPrice = stringField(ticker, "markPrice");
+      if (markPrice) void this.updatePrice(symbol, formatWeiToNormal(markPrice), "mark");
+      const lastPrice = stringField(ticker, "lastPrice");
+      if (lastPrice) void this.updatePrice(symbol, formatWeiToNormal(lastPrice), "last");
+    }
+  }
+
+  private async evaluate(state: TrailingStopState, price: BigNumber): Promise<void> {
+    const { config } = state;
+    if (state.status === "triggered" || state.status === "failed") return;
+    state.lastPrice = price.toString(10);
+
+    if (state.status === "pending") {
+      const activation = new BigNumber(config.activationPrice ?? 0);
+      const reached = config.isLong ? price.gte(activation) : price.lte(activation);
+      if (!reached) return;
+      state.status = "trailing";
+    }
+
+    const mark = state.waterMark ? new BigNumber(state.waterMark) : undefined;
+    const moved = !mark || (config.isLong ? price.gt(mark) : price.lt(mark));
+    if (moved) {
+      state.waterMark = price.toString(10);
+      state.stopPrice = this.stopFor(config, price).toString(10);
+      this.updateListeners.emit({ ...state });
+    }
+
+    // Check the stop before editing the plan so a slow edit cannot delay the close
+    const stop = new BigNumber(state.stopPrice as string);
+    const hit = config.isLong ? price.lte(stop) : price.gte(stop);
+    if (hit) {
+      await this.fire(state);
+    } else if (moved) {
+      await this.ratchetPlan(state);
+    }
+  }
+
+  private stopFor(config: TrailingStopConfig, waterMark: BigNumber): BigNumber {
+    const distance =
+      config.trailDistance !== undefined
+        ? new BigNumber(config.trailDistance)
+        : waterMark.multipliedBy(config.trailPercent ?? 0);
+    return config.isLong ? waterMark.minus(distance) : waterMark.plus(distance);
+  }
+
+  private async ratchetPlan(state: TrailingStopState): Promise<void> {
+    const { config } = state;
+    if (!config.slPlan || !state.stopPrice) return;
+    const now = Date.now();
+    const interval = config.slPlan.minIntervalMs ?? DEFAULT_PLAN_INTERVAL_MS;
+    if (now - (this.lastPlanEdit.get(state.id) ?? 0) < interval) return;
+    const stop = new BigNumber(state.stopPrice);
+    if (state.planStopPrice) {
+      const improvement = config.isLong
+        ? stop.minus(state.planStopPrice)
+        : new BigNumber(state.planStopPrice).minus(stop);
+      if (improvement.lte(0) || improvement.lt(config.slPlan.minStep ?? 0)) return;
+    }
+
+    this.lastPlanEdit.set(state.id, now);
+    try {
+      const result = await this.sdk.placePositionTpSlOrders({
+        symbol: config.symbol,
+        side: config.isLong ? OrderSide.SELL : OrderSide.BUY,
+        isLong: config.isLong,
+        quantity: config.quantity,
+        leverage: config.leverage,
+        rounding: "nearest",
+        sl: {
+          triggerPrice: state.stopPrice,
+          planId: config.slPlan.planId,
+          tpslType: "position",
+        },
+      });
+      if (result.status) {
+        state.planStopPrice = state.stopPrice;
+      } else {
+        this.errorListeners.emit({ id: state.id, error: result.error || "SL plan edit failed" });
+      }
+    } catch (error) {
+      this.errorListeners.emit({ id: state.id, error: formatError(error) });
+    }
+  }
+
+  /**
+   * Close the position. A failed close (REST error, slippage refusal) keeps
+   * the stop trailing and is retried on a later hit with exponential
+   * backoff; only a close rejected by pre-flight validation is final.
+   */
+  private async fire(state: TrailingStopState): Promise<void> {
+    if (this.firing.has(state.id)) return;
+    if (state.retryAt !== undefined && Date.now() < state.retryAt) return;
+    this.firing.add(state.id);
+    const { config } = state;
+    try {
+      const response = await this.sdk.placeOrder({
+        symbol: config.symbol,
+        side: config.isLong ? OrderSide.SELL : OrderSide.BUY,
+        orderType: OrderType.MARKET,
+        quantity: config.quantity,
+        leverage: config.leverage,
+        reduceOnly: true,
+        maxSlippage: config.maxSlippage,
+        parentAddress: config.parentAddress,
+      });
+      if (response.status) {
+        state.status = "triggered";
+        state.retryAt = undefined;
+        this.triggerListeners.emit({ state: { ...state }, response });
+        return;
+      }
+      this.errorListeners.emit({ id: state.id, error: response.error || "Close order failed" });
+      if (response.validationErrors?.length) {
+        state.status = "failed";
+        this.triggerListeners.emit({ state: { ...state }, response });
+      } else {
+        this.scheduleRetry(state);
+      }
+    } catch (error) {
+      this.errorListeners.emit({ id: state.id, error: formatError(error) });
+      this.scheduleRetry(state);
+    } finally {
+      this.firing.delete(state.id);
+    }
+  }
+
+  private scheduleRetry(state: TrailingStopState): void {
+    state.closeAttempts = (state.closeAttempts ?? 0) + 1;
+    const delay = Math.min(
+      CLOSE_RETRY_BASE_MS * 2 ** (state.closeAttempts - 1),
+      CLOSE_RETRY_MAX_MS
+    );
+    state.retryAt = Date.now() + delay;
+  }
+}
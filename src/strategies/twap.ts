@@ -0,0 +1,474 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * TWAP / VWAP execution: a parent order is sliced into child MARKET orders
+ * on the market's step grid and sent over time. TWAP spreads the quantity
+ * evenly; VWAP follows the previous day's kline volume profile and can cap
+ * participation. Each child is shrunk to what the visible book can absorb
+ * within `maxSlippageBps`, with the rest carried into later slices.
+ */
+import BigNumber from "bignumber.js";
+import type { DipCoinPerpSDK } from "../sdk";
+import { OrderSide, OrderType } from "../types";
+import {
+  allocateSlices,
+  maxQuantityWithinSlippage,
+  orderBookToNormal,
+  snapToIncrement,
+} from "../trading";
+import { formatError } from "../utils";
+import { Listeners } from "../utils/listeners";
+import { fetchChildOrderFill } from "./orderStatus";
+
+/** Lookups of a child's fill after it was accepted (history can lag behind the order) */
+const CHILD_FILL_CHECKS = 5;
+const CHILD_FILL_CHECK_INTERVAL_MS = 1000;
+
+/** Common parameters of the sliced execution algorithms. */
+export interface SlicedExecutionParams {
+  symbol: string;
+  side: OrderSide;
+  /** Parent quantity (normal units) */
+  totalQuantity: number | string;
+  /** Total execution window in ms */
+  durationMs: number;
+  /** Number of child slices */
+  slices: number;
+  /** Leverage for the child orders */
+  leverage: number | string;
+  reduceOnly?: boolean;
+  parentAddress?: string;
+  /**
+   * Cap each child to the depth available within this distance from mid
+   * (basis points); the rest is carried into later slices.
+   */
+  maxSlippageBps?: number;
+  /** Slippage bound passed to each child order (see `PlaceOrderParams.maxSlippage`) */
+  childMaxSlippage?: number | true;
+}
+
+/** Parameters of {@link executeVwap}. */
+export interface VwapParams extends SlicedExecutionParams {
+  /** Kline interval used for the volume profile (default "1m") */
+  klineInterval?: string;
+  /**
+   * Maximum share of the expected slice volume a child may take (e.g. 0.1).
+   * Excess quantity is carried into later slices.
+   */
+  maxParticipation?: number;
+}
+
+export type SlicedExecutionStatus = "running" | "paused" | "cancelled" | "completed" | "failed";
+
+export interface ChildOrderReport {
+  slice: number;
+  clientId?: string;
+  quantity: string;
+  filledQuantity: string;
+  averagePrice?: string;
+  /** True while the fill is unconfirmed and `averagePrice` is the book estimate */
+  estimated: boolean;
+  /**
+   * "pending" while the child was accepted but its fill is not confirmed yet;
+   * its quantity is held back from later slices until it settles
+   */
+  status: "filled" | "pending" | "failed";
+  error?: string;
+  timestamp: number;
+}
+
+export interface SlicedExecutionProgress {
+  symbol: string;
+  side: OrderSide;
+  status: SlicedExecutionStatus;
+  totalQuantity: string;
+  filledQuantity: string;
+  remainingQuantity: string;
+  /** Volume-weighted average fill price across children */
+  averagePrice?: string;
+  slicesDone: number;
+  slicesTotal: number;
+  children: ChildOrderReport[];
+  error?: string;
+}
+
+/** Handle of a running TWAP / VWAP execution. */
+export class SlicedExecution {
+  /** Resolves with the final progress once the execution stops. */
+  readonly done: Promise<SlicedExecutionProgress>;
+  private state: SlicedExecutionProgress;
+  private wakeSleep?: () => void;
+  private wakePause?: () => void;
+  /** Time spent paused; pushes the remaining schedule back */
+  private pausedMs = 0;
+  private pausedAt?: number;
+  private progressListeners = new Listeners<SlicedExecutionProgress>();
+
+  constructor(
+    private sdk: DipCoinPerpSDK,
+    private params: SlicedExecutionParams,
+    private plan: (spec: { stepSize: string; minTradeQty: string }) => Promise<SlicePlan>
+  ) {
+    if (!(params.slices >= 1) || !(params.durationMs >= 0)) {
+      throw new Error("slices must be >= 1 and durationMs >= 0");
+    }
+    this.state = {
+      symbol: params.symbol,
+      side: params.side,
+      status: "running",
+      totalQuantity: new BigNumber(params.totalQuantity).toString(10),
+      filledQuantity: "0",
+      remainingQuantity: new BigNumber(params.totalQuantity).toString(10),
+      slicesDone: 0,
+      slicesTotal: params.slices,
+      children: [],
+    };
+    this.done = this.run();
+  }
+
+  progress(): SlicedExecutionProgress {
+    return { ...this.state, children: [...this.state.children] };
+  }
+
+  /** Fired after each child order and on every status change. */
+  onProgress(cb: (progress: SlicedExecutionProgress) => void): () => void {
+    return this.progressListeners.add(cb);
+  }
+
+  /** Hold further child orders until {@link resume}. */
+  pause(): void {
+    if (this.state.status !== "running") return;
+    this.pausedAt = Date.now();
+    this.setStatus("paused");
+  }
+
+  /** Continue; the remaining slices are rescheduled from the resume time. */
+  resume(): void {
+    if (this.state.status !== "paused") return;
+    this.pausedMs += Date.now() - (this.pausedAt ?? Date.now());
+    this.pausedAt = undefined;
+    this.setStatus("running");
+    this.wakePause?.();
+  }
+
+  /** Stop sending child orders. Already filled children are not reverted. */
+  cancel(): void {
+    if (this.isFinal()) return;
+    this.setStatus("cancelled");
+    this.wakeSleep?.();
+    this.wakePause?.();
+  }
+
+  private async run(): Promise<SlicedExecutionProgress> {
+    try {
+      const specResult = await this.sdk.getMarketSpec(this.params.symbol);
+      if (!specResult.status || !specResult.data) {
+        throw new Error(specResult.error || "Market spec not found");
+      }
+      const spec = specResult.data;
+      const plan = await this.plan(spec);
+      const interval = this.params.durationMs / this.params.slices;
+      const startedAt = Date.now();
+      let carry = new BigNumber(0);
+
+      for (let i = 0; i < plan.quantities.length; i++) {
+        await this.waitForSlot(startedAt + i * interval);
+        if (this.isFinal()) break;
+
+        carry = carry.plus(await this.settlePending());
+        const owed = carry.plus(plan.quantities[i]);
+        const cap = plan.caps?.[i];
+        carry = owed.minus(
+          await this.sendSlice(i, cap !== undefined ? BigNumber.min(owed, cap) : owed, spec)
+        );
+        this.state.slicesDone = i + 1;
+        this.emit();
+      }
+
+      // Catch-up slice at the end of the window for whatever was carried over
+      if (!this.isFinal()) carry = carry.plus(await this.settlePending());
+      if (!this.isFinal() && carry.gt(0)) {
+        await this.waitForSlot(startedAt + plan.quantities.length * interval);
+        if (!this.isFinal()) {
+          carry = carry.minus(await this.sendSlice(plan.quantities.length, carry, spec));
+          this.emit();
+        }
+      }
+
+      if (!this.isFinal()) {
+        carry = carry.plus(await this.settlePending());
+        const pending = this.pendingQuantity();
+        if (carry.gt(0)) {
+          this.state.error = `Execution window ended with ${carry.toString(10)} unfilled`;
+          this.setStatus("failed");
+        } else if (pending.gt(0)) {
+          this.state.error = `Execution window ended with ${pending.toString(10)} unconfirmed`;
+          this.setStatus("failed");
+        } else {
+          this.setStatus("completed");
+        }
+      }
+    } catch (error) {
+      this.state.error = formatError(error);
+      this.setStatus("failed");
+    }
+    return this.progress();
+  }
+
+  /**
+   * Send one child for up to `quantity` (limited by depth and the remaining
+   * quantity, snapped to the step grid). Returns the quantity accounted for:
+   * the confirmed fill, or the full size while the child is pending.
+   */
+  private async sendSlice(
+    slice: number,
+    quantity: BigNumber,
+    spec: { stepSize: string; minTradeQty: string }
+  ): Promise<BigNumber> {
+    let size = await this.depthLimited(quantity, spec.stepSize);
+    size = BigNumber.min(
+      size,
+      new BigNumber(this.state.remainingQuantity).minus(this.pendingQuantity())
+    );
+    size = new BigNumber(snapToIncrement(size, spec.stepSize, "floor"));
+    if (size.lte(0) || size.lt(spec.minTradeQty || 0)) return new BigNumber(0);
+    const report = await this.sendChild(slice, size);
+    return new BigNumber(report.status === "pending" ? report.quantity : report.filledQuantity);
+  }
+
+  /**
+   * Wait until a slot of the schedule (shifted by the time spent paused) is
+   * due and the execution is not paused.
+   */
+  private async waitForSlot(scheduledAt: number): Promise<void> {
+    while (!this.isFinal()) {
+      await this.sleepUntil(scheduledAt + this.pausedMs);
+      await this.waitWhilePaused();
+      if (Date.now() >= scheduledAt + this.pausedMs) return;
+    }
+  }
+
+  private async sendChild(slice: number, quantity: BigNumber): Promise<ChildOrderReport> {
+    const { symbol, side, leverage, reduceOnly, parentAddress, childMaxSlippage } = this.params;
+    const estimate = await this.sdk.estimateExecution(symbol, side, quantity.toString(10));
+    const response = await this.sdk.placeOrder({
+      symbol,
+      side,
+      orderType: OrderType.MARKET,
+      quantity: quantity.toString(10),
+      leverage,
+      reduceOnly,
+      parentAddress,
+      maxSlippage: childMaxSlippage,
+    });
+
+    const report: ChildOrderReport = {
+      slice,
+      clientId: response.data?.clientId,
+      quantity: quantity.toString(10),
+      filledQuantity: "0",
+      averagePrice: response.status ? estimate.data?.averagePrice : undefined,
+      estimated: response.status,
+      status: response.status ? "pending" : "failed",
+      error: response.status ? undefined : response.error,
+      timestamp: Date.now(),
+    };
+    this.state.children.push(report);
+    // Only count a confirmed fill; history can lag behind the order
+    for (let check = 0; check < CHILD_FILL_CHECKS && report.status === "pending"; check++) {
+      if (check > 0) {
+        await new Promise((resolve) => setTimeout(resolve, CHILD_FILL_CHECK_INTERVAL_MS));
+      }
+      await this.settleChild(report);
+    }
+    return report;
+  }
+
+  /**
+   * Look up the fill of a pending child and record it once the order has
+   * left the book. Leaves the child pending while it is open or not visible.
+   */
+  private async settleChild(report: ChildOrderReport): Promise<void> {
+    if (report.status !== "pending" || !report.clientId) return;
+    const fill = await fetchChildOrderFill(this.sdk, report.clientId, report.quantity);
+    if (!fill || fill.state === "open") return;
+    const filled = new BigNumber(fill.filledQuantity);
+    report.filledQuantity = filled.toString(10);
+    report.averagePrice = filled.gt(0) ? fill.averagePrice : undefined;
+    report.estimated = false;
+    if (filled.gt(0)) {
+      report.status = "filled";
+    } else {
+      report.status = "failed";
+      report.error = `Child order ${report.clientId} was not filled`;
+    }
+    this.recordFill(report);
+  }
+
+  /**
+   * Retry the lookup of children that are still pending. Returns the
+   * quantity they left unfilled, which is owed to later slices.
+   */
+  private async settlePending(): Promise<BigNumber> {
+    let unfilled = new BigNumber(0);
+    for (const report of this.state.children) {
+      if (report.status !== "pending") continue;
+      await this.settleChild(report);
+      if (report.status !== "pending") {
+        unfilled = unfilled.plus(new BigNumber(report.quantity).minus(report.filledQuantity));
+      }
+    }
+    return unfilled;
+  }
+
+  /** Quantity of children sent but not confirmed yet. */
+  private pendingQuantity(): BigNumber {
+    return this.state.children
+      .filter((c) => c.status === "pending")
+      .reduce((sum, c) => sum.plus(c.quantity), new BigNumber(0));
+  }
+
+  private recordFill(report: ChildOrderReport): void {
+    const filledBefore = new BigNumber(this.state.filledQuantity);
+    const filled = new BigNumber(report.filledQuantity);
+    const filledAfter = filledBefore.plus(filled);
+    if (filled.gt(0) && report.averagePrice) {
+      const notional = new BigNumber(this.state.averagePrice ?? 0)
+        .multipliedBy(filledBefore)
+        .plus(filled.multipliedBy(report.averagePrice));
+      this.state.averagePrice = notional.dividedBy(filledAfter).toString(10);
+    }
+    this.state.filledQuantity = filledAfter.toString(10);
+    this.state.remainingQuantity = BigNumber.max(
+      new BigNumber(this.state.totalQuantity).minus(filledAfter),
+      0
+    ).toString(10);
+  }
+
+  /** Shrink a child to the depth available within `maxSlippageBps` of mid. */
+  private async depthLimited(quantity: BigNumber, stepSize: string): Promise<BigNumber> {
+    if (this.params.maxSlippageBps === undefined) return quantity;
+    const bookResult = await this.sdk.getOrderBook(this.params.symbol);
+    if (!bookResult.status || !bookResult.data) return quantity;
+    // Order book levels are in wei
+    const book = orderBookToNormal(bookResult.data);
+    const available = maxQuantityWithinSlippage(book, this.params.side, this.params.maxSlippageBps);
+    return new BigNumber(snapToIncrement(BigNumber.min(quantity, available), stepSize, "floor"));
+  }
+
+  private async sleepUntil(time: number): Promise<void> {
+    const delay = time - Date.now();
+    if (delay <= 0 || this.isFinal()) return;
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(done, delay);
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wakeSleep = done;
+    });
+    this.wakeSleep = undefined;
+  }
+
+  private async waitWhilePaused(): Promise<void> {
+    while (this.state.status === "paused") {
+      await new Promise<void>((resolve) => (this.wakePause = resolve));
+      this.wakePause = undefined;
+    }
+  }
+
+  private isFinal(): boolean {
+    return ["cancelled", "completed", "failed"].includes(this.state.status);
+  }
+
+  private setStatus(status: SlicedExecutionStatus): void {
+    this.state.status = status;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.progressListeners.emit(this.progress());
+  }
+}
+
+/** Planned quantity per slice plus an optional per-slice cap. */
+interface SlicePlan {
+  quantities: string[];
+  caps?: (string | undefined)[];
+}
+
+/**
+ * Start a TWAP execution: `totalQuantity` split evenly over `slices` child
+ * orders spaced `durationMs / slices` apart.
+ * @example
+ * ```typescript
+ * const twap = executeTwap(sdk, {
+ *   symbol: "BTC-PERP", side: OrderSide.BUY, totalQuantity: "5",
+ *   durationMs: 30 * 60 * 1000, slices: 30, leverage: 5, maxSlippageBps: 20,
+ * });
+ * twap.onProgress((p) => console.log(p.filledQuantity, p.averagePrice));
+ * const result = await twap.done;
+ * ```
+ */
+export function executeTwap(sdk: DipCoinPerpSDK, params: SlicedExecutionParams): SlicedExecution {
+  return new SlicedExecution(sdk, params, async (spec) => ({
+    quantities: allocateSlices(
+      params.totalQuantity,
+      new Array(params.slices).fill(1),
+      spec.stepSize,
+      spec.minTradeQty
+    ),
+  }));
+}
+
+/**
+ * Start a VWAP execution: slices are weighted by the volume traded in the
+ * same window of the previous day (`getKlineHistory`), falling back to an
+ * even split when no volume is available. With `maxParticipation` each child
+ * is capped to that share of the expected slice volume.
+ */
+export function executeVwap(sdk: DipCoinPerpSDK, params: VwapParams): SlicedExecution {
+  return new SlicedExecution(sdk, params, async (spec) => {
+    const profile = await volumeProfile(sdk, params);
+    const quantities = allocateSlices(
+      params.totalQuantity,
+      profile,
+      spec.stepSize,
+      spec.minTradeQty
+    );
+    const caps =
+      params.maxParticipation !== undefined
+        ? profile.map((volume) =>
+            volume > 0
+              ? new BigNumber(volume).multipliedBy(params.maxParticipation as number).toString(10)
+              : undefined
+          )
+        : undefined;
+    return { quantities, caps };
+  });
+}
+
+/** Volume per slice over the same window one day earlier. */
+async function volumeProfile(sdk: DipCoinPerpSDK, params: VwapParams): Promise<number[]> {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const start = Date.now() - dayMs;
+  const end = start + params.durationMs;
+  const bars = await sdk.getKlineHistory({
+    symbol: params.symbol,
+    interval: params.klineInterval ?? "1m",
+    // Kline query times are in seconds
+    from: Math.floor(start / 1000),
+    to: Math.ceil(end / 1000),
+  });
+  const profile = new Array(params.slices).fill(0);
+  if (!bars.status || !bars.data || params.durationMs <= 0) return profile;
+  const width = params.durationMs / params.slices;
+  for (const bar of bars.data) {
+    // Bar times may be in seconds or milliseconds
+    const time = bar.time < 1e12 ? bar.time * 1000 : bar.time;
+    const index = Math.floor((time - start) / width);
+    if (index >= 0 && index < params.slices) profile[index] += Number(bar.volume) || 0;
+  }
+  return profile;
+}
@@ -0,0 +1,87 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Client order ID helpers: generation and a local clientId ↔ order hash map
+ * used to reconcile strategy intents against exchange state.
+ */
+import { ClientOrderRecord } from "../types";
+
+/** Generate a client order ID (`dc-<time36>-<random>`), unique per process. */
+export function generateClientOrderId(): string {
+  const random =
+    typeof globalThis.crypto?.randomUUID === "function"
+      ? globalThis.crypto.randomUUID().replace(/-/g, "").slice(0, 12)
+      : Math.random().toString(36).slice(2, 14).padEnd(12, "0");
+  return `dc-${Date.now().toString(36)}-${random}`;
+}
+
+/**
+ * Pull the order hash out of a place-order response payload. The backend
+ * returns either the hash itself or an object carrying `hash` / `orderHash`.
+ */
+export function extractOrderHash(data: unknown): string | undefined {
+  if (!data) return undefined;
+  if (typeof data === "string") return data.startsWith("0x") ? data : undefined;
+  if (typeof data !== "object") return undefined;
+  const payload = data as { hash?: unknown; orderHash?: unknown; data?: unknown };
+  const hash = payload.hash ?? payload.orderHash;
+  if (typeof hash === "string" && hash) return hash;
+  return payload.data !== undefined ? extractOrderHash(payload.data) : undefined;
+}
+
+/**
+ * In-memory clientId → order record map with a reverse hash index. The
+ * oldest records are evicted once `maxEntries` is exceeded.
+ */
+export class ClientOrderRegistry {
+  private records = new Map<string, ClientOrderRecord>();
+  private byHash = new Map<string, string>();
+
+  constructor(private maxEntries = 10000) {}
+
+  /** Record (or update) an order placed with `clientId`. */
+  register(record: ClientOrderRecord): void {
+    const previous = this.records.get(record.clientId);
+    if (previous?.orderHash) this.byHash.delete(previous.orderHash.toLowerCase());
+    this.records.delete(record.clientId);
+    this.records.set(record.clientId, record);
+    if (record.orderHash) this.byHash.set(record.orderHash.toLowerCase(), record.clientId);
+    this.evict();
+  }
+
+  /** Attach the exchange order hash once it is known. */
+  attachHash(clientId: string, orderHash: string): void {
+    const record = this.records.get(clientId);
+    if (!record || record.orderHash === orderHash) return;
+    if (record.orderHash) this.byHash.delete(record.orderHash.toLowerCase());
+    record.orderHash = orderHash;
+    this.byHash.set(orderHash.toLowerCase(), clientId);
+  }
+
+  get(clientId: string): ClientOrderRecord | undefined {
+    return this.records.get(clientId);
+  }
+
+  /** Reverse lookup: clientId for an order hash. */
+  getClientId(orderHash?: string): string | undefined {
+    return orderHash ? this.byHash.get(orderHash.toLowerCase()) : undefined;
+  }
+
+  delete(clientId: string): void {
+    const record = this.records.get(clientId);
+    if (record?.orderHash) this.byHash.delete(record.orderHash.toLowerCase());
+    this.records.delete(clientId);
+  }
+
+  list(): ClientOrderRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  private evict(): void {
+    while (this.records.size > this.maxEntries) {
+      const oldest = this.records.keys().next().value as string;
+      this.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Order book execution estimate: walk the opposite side of the book for a
+ * taker order and report average / worst price, slippage versus mid, the
+ * unfilled remainder and the taker fee.
+ */
+import BigNumber from "bignumber.js";
+import { ExecutionEstimate, OrderBook, OrderSide } from "../types";
+
+/** Mid price of a book (best bid / ask average, or the only side present). */
+export function bookMidPrice(book: OrderBook): BigNumber | undefined {
+  const bestBid = book.bids[0] ? new BigNumber(book.bids[0].price) : undefined;
+  const bestAsk = book.asks[0] ? new BigNumber(book.asks[0].price) : undefined;
+  if (bestBid && bestAsk) return bestBid.plus(bestAsk).dividedBy(2);
+  return bestBid ?? bestAsk;
+}
+
+/**
+ * Estimate the execution of a taker order of `quantity` against `book`.
+ * All book values, the quantity and the result are in normal units.
+ * @param book Order book, levels best-first
+ * @param side Side of the taker order (BUY consumes asks, SELL consumes bids)
+ * @param quantity Order size
+ * @param takerFeeRate Taker fee as a fraction of notional (e.g. "0.0005")
+ */
+export function estimateExecutionFromBook(
+  book: OrderBook,
+  side: OrderSide,
+  quantity: BigNumber.Value,
+  takerFeeRate: BigNumber.Value = 0
+): Omit<ExecutionEstimate, "symbol"> {
+  const target = new BigNumber(quantity);
+  if (target.isNaN() || target.lte(0)) {
+    throw new Error("quantity must be greater than zero");
+  }
+  const levels = side === OrderSide.BUY ? book.asks : book.bids;
+
+  let filled = new BigNumber(0);
+  let notional = new BigNumber(0);
+  let worst: BigNumber | undefined;
+  let levelsConsumed = 0;
+  for (const level of levels) {
+    if (filled.gte(target)) break;
+    const price = new BigNumber(level.price);
+    const size = BigNumber.min(new BigNumber(level.quantity), target.minus(filled));
+    if (price.isNaN() || size.isNaN() || size.lte(0)) continue;
+    filled = filled.plus(size);
+    notional = notional.plus(size.multipliedBy(price));
+    worst = price;
+    levelsConsumed++;
+  }
+
+  const mid = bookMidPrice(book);
+  const average = filled.gt(0) ? notional.dividedBy(filled) : undefined;
+  let slippageBps: string | undefined;
+  if (average && mid && mid.gt(0)) {
+    const diff = side === OrderSide.BUY ? average.minus(mid) : mid.minus(average);
+    slippageBps = diff.dividedBy(mid).multipliedBy(10000).toFixed(2);
+  }
+  const feeRate = new BigNumber(takerFeeRate);
+
+  return {
+    side,
+    quantity: target.toString(10),
+    filledQuantity: filled.toString(10),
+    unfilledQuantity: target.minus(filled).toString(10),
+    fullyFilled: filled.gte(target),
+    averagePrice: average?.toString(10),
+    worstPrice: worst?.toString(10),
+    midPrice: mid?.toString(10),
+    slippageBps,
+    notional: notional.toString(10),
+    takerFeeRate: feeRate.toString(10),
+    takerFee: notional.multipliedBy(feeRate).toString(10),
+    levelsConsumed,
+  };
+}
+
+/**
+ * Largest quantity the visible book can fill without any level crossing
+ * `maxSlippageBps` away from mid. Normal units.
+ */
+export function maxQuantityWithinSlippage(
+  book: OrderBook,
+  side: OrderSide,
+  maxSlippageBps: number
+): BigNumber {
+  const mid = bookMidPrice(book);
+  if (!mid || mid.lte(0)) return new BigNumber(0);
+  const offset = mid.multipliedBy(maxSlippageBps).dividedBy(10000);
+  const limit = side === OrderSide.BUY ? mid.plus(offset) : mid.minus(offset);
+  let total = new BigNumber(0);
+  for (const level of side === OrderSide.BUY ? book.asks : book.bids) {
+    const price = new BigNumber(level.price);
+    if (side === OrderSide.BUY ? price.gt(limit) : price.lt(limit)) break;
+    total = total.plus(level.quantity);
+  }
+  return total;
+}
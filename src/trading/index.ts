@@ -0,0 +1,14 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+export * from "./marketSpec";
+export * from "./orderBook";
+export * from "./marketData";
+export * from "./orderValidation";
+export * from "./timeInForce";
+export * from "./clientOrderId";
+export * from "./slippage";
+export * from "./executionEstimate";
+export * from "./riskCalculator";
+export * from "./slicing";
+export * from "./scaledOrders";
@@ -0,0 +1,119 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Ticker and kline parsing shared by the REST market endpoints and the
+ * `ticker` / `tickers` / `kline` WS channels. Tickers keep the backend's wei
+ * format; kline bars are converted to normal units.
+ */
+import BigNumber from "bignumber.js";
+import { KlineBar, Ticker } from "../types";
+import { formatWeiToNormal } from "../utils";
+
+/**
+ * Process ticker data from API format to Ticker format
+ * Keep all values in wei format - no conversion
+ * @param rawData Raw ticker data from API
+ * @returns Processed Ticker object
+ */
+export function processTickerData(rawData: any): Ticker {
+  // Calculate mid price from best bid and ask
+  // Calculate using wei values, keep in wei format
+  let midPrice: string | undefined;
+  if (rawData.bestAskPrice && rawData.bestBidPrice) {
+    // Both exist: calculate average in wei
+    const askPriceBN = new BigNumber(rawData.bestAskPrice);
+    const bidPriceBN = new BigNumber(rawData.bestBidPrice);
+    const midPriceBN = askPriceBN.plus(bidPriceBN).dividedBy(2);
+    midPrice = midPriceBN.toString();
+  } else if (rawData.bestAskPrice) {
+    midPrice = String(rawData.bestAskPrice);
+  } else if (rawData.bestBidPrice) {
+    midPrice = String(rawData.bestBidPrice);
+  } else {
+    midPrice = "0";
+  }
+
+  // Build ticker object - keep all values in wei format
+  const ticker: Ticker = {
+    symbol: rawData.symbol,
+    lastPrice: String(rawData.lastPrice || "0"),
+    high24h: String(rawData.high24h || "0"),
+    low24h: String(rawData.low24h || "0"),
+    amount24h: String(rawData.amount24h || "0"),
+    volume24h: String(rawData.volume24h || "0"),
+    midPrice,
+    timestamp: rawData.timestamp || Date.now(),
+  };
+
+  // Optional fields - keep in wei format
+  if (rawData.markPrice) {
+    ticker.markPrice = String(rawData.markPrice);
+  }
+  if (rawData.bestAskPrice) {
+    ticker.bestAskPrice = String(rawData.bestAskPrice);
+  }
+  if (rawData.bestBidPrice) {
+    ticker.bestBidPrice = String(rawData.bestBidPrice);
+  }
+  if (rawData.bestAskAmount) {
+    ticker.bestAskAmount = String(rawData.bestAskAmount);
+  }
+  if (rawData.bestBidAmount) {
+    ticker.bestBidAmount = String(rawData.bestBidAmount);
+  }
+  if (rawData.open24h) {
+    ticker.open24h = String(rawData.open24h);
+  }
+  if (rawData.change24h) {
+    ticker.change24h = String(rawData.change24h);
+  }
+  if (rawData.rate24h) {
+    ticker.rate24h = String(rawData.rate24h);
+  }
+  if (rawData.openPrice) {
+    ticker.openPrice = String(rawData.openPrice);
+  }
+  if (rawData.oraclePrice) {
+    ticker.oraclePrice = String(rawData.oraclePrice);
+  }
+  if (rawData.fundingRate) {
+    ticker.fundingRate = String(rawData.fundingRate);
+  }
+  if (rawData.openInterest) {
+    ticker.openInterest = String(rawData.openInterest);
+  }
+
+  return ticker;
+}
+
+/** A wei value of a kline row in normal units (missing values are 0). */
+function klineValue(value: unknown): string {
+  return formatWeiToNormal(typeof value === "number" ? value : String(value ?? "0"));
+}
+
+/**
+ * Convert a raw kline row (`[time, open, high, low, close, volume]` or an
+ * object) to a {@link KlineBar} in normal units.
+ */
+export function processKlineBar(row: unknown[] | Record<string, unknown>): KlineBar {
+  if (Array.isArray(row)) {
+    const [time, open, high, low, close, volume] = row;
+    return {
+      time: Number(time ?? 0),
+      open: klineValue(open),
+      high: klineValue(high),
+      low: klineValue(low),
+      close: klineValue(close),
+      volume: klineValue(volume),
+    };
+  }
+  return {
+    time: Number(row.time ?? row.timestamp ?? 0),
+    open: klineValue(row.open),
+    high: klineValue(row.high),
+    low: klineValue(row.low),
+    close: klineValue(row.close),
+    volume: klineValue(row.volume),
+  };
+}
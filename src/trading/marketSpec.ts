@@ -0,0 +1,93 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Helpers that turn the per-market `Config` blocks of the deployed
+ * `main_contract.json` into typed, normal-unit {@link MarketSpec} objects.
+ */
+import BigNumber from "bignumber.js";
+import type { MarketSpec, TradingPair } from "../types";
+import { formatWeiToNormal } from "../utils";
+
+/**
+ * Leverage values at or above this threshold are treated as 18-decimal wei
+ * (some backends return `maxLeverage` as wei, others as a plain number).
+ */
+const WEI_LEVERAGE_THRESHOLD = new BigNumber(10).pow(9);
+
+const toNormal = (value: unknown): string =>
+  value === undefined || value === null || value === "" ? "0" : formatWeiToNormal(String(value));
+
+/** Fields of a deployment JSON object (empty for anything that is not an object). */
+const fieldsOf = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+const stringOf = (value: unknown): string | undefined =>
+  typeof value === "string" && value ? value : undefined;
+
+/** Normalize a leverage value that may be expressed either in wei or normal units. */
+export function normalizeLeverage(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const bn = new BigNumber(String(value));
+  if (bn.isNaN()) return undefined;
+  return bn.gte(WEI_LEVERAGE_THRESHOLD) ? formatWeiToNormal(bn.toString(10)) : bn.toString(10);
+}
+
+/**
+ * Parse a deployment market entry (`markets.<symbol>`) into a {@link MarketSpec}.
+ * Accepts either the full `{ Config, Objects }` entry or the bare `Config` block.
+ */
+export function parseDeploymentMarket(symbol: string, entry: unknown): MarketSpec {
+  const fields = fieldsOf(entry);
+  const config = fieldsOf(fields.Config ?? entry);
+  const perpId = stringOf(fieldsOf(fieldsOf(fields.Objects).Perpetual).id);
+  return {
+    symbol: stringOf(config.symbol) || symbol,
+    perpId,
+    baseAssetSymbol: stringOf(config.baseAssetSymbol),
+    quoteAssetSymbol: stringOf(config.quoteAssetSymbol),
+    tickSize: toNormal(config.tickSize),
+    stepSize: toNormal(config.stepSize),
+    minTradeQty: toNormal(config.minTradeQty),
+    maxTradeQtyLimit: toNormal(config.maxTradeQtyLimit),
+    maxTradeQtyMarket: toNormal(config.maxTradeQtyMarket),
+    minOrderPrice: toNormal(config.minOrderPrice),
+    maxOrderPrice: toNormal(config.maxOrderPrice),
+    initialMarginReq: toNormal(config.initialMarginReq),
+    maintenanceMarginReq: toNormal(config.maintenanceMarginReq),
+    defaultMakerFee: toNormal(config.defaultMakerFee),
+    defaultTakerFee: toNormal(config.defaultTakerFee),
+    defaultLeverage: config.defaultLeverage ? toNormal(config.defaultLeverage) : undefined,
+    maxAllowedOIOpen: Array.isArray(config.maxAllowedOIOpen)
+      ? config.maxAllowedOIOpen.map(toNormal)
+      : [],
+    tradingStartTime:
+      config.tradingStartTime !== undefined ? Number(config.tradingStartTime) : undefined,
+  };
+}
+
+/**
+ * Parse every market of a deployment config, keyed by upper-case symbol.
+ */
+export function parseDeploymentMarkets(deploymentConfig: unknown): Record<string, MarketSpec> {
+  const markets = fieldsOf(fieldsOf(deploymentConfig).markets);
+  const specs: Record<string, MarketSpec> = {};
+  for (const [symbol, entry] of Object.entries(markets)) {
+    specs[symbol.toUpperCase()] = parseDeploymentMarket(symbol, entry);
+  }
+  return specs;
+}
+
+/**
+ * Merge live trading pair data into a deployment spec. The live `perpId` wins
+ * only when the deployment does not carry one.
+ */
+export function mergeMarketSpec(spec: MarketSpec, pair?: TradingPair): MarketSpec {
+  if (!pair) return spec;
+  return {
+    ...spec,
+    perpId: spec.perpId || pair.perpId,
+    maxLeverage: normalizeLeverage(pair.maxLeverage) ?? spec.maxLeverage,
+    pair,
+  };
+}
@@ -0,0 +1,87 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Order book level parsing shared by the REST order book and the `orderBook`
+ * WS channel. Levels keep the backend's wei format.
+ */
+import { OrderBook, OrderBookEntry } from "../types";
+import { formatWeiToNormal } from "../utils";
+
+/**
+ * Process order book entries from API format to OrderBookEntry format
+ * Match ts-frontend: processOrderBookEntries method
+ * @param entries Raw entries from API (array of [price, quantity, orderNum] or objects)
+ * @param side "bids" or "asks"
+ * @returns Processed OrderBookEntry array
+ */
+export function processOrderBookEntries(entries: any[], side: "bids" | "asks"): OrderBookEntry[] {
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  return entries
+    .filter((entry) => {
+      // Check if it's array format [price, quantity, orderNum]
+      if (Array.isArray(entry) && entry.length >= 2) {
+        const [price, quantity] = entry;
+        return (
+          price &&
+          quantity &&
+          !isNaN(parseFloat(String(price))) &&
+          !isNaN(parseFloat(String(quantity))) &&
+          parseFloat(String(quantity)) > 0
+        );
+      }
+      // Check if it's object format {price, quantity}
+      if (entry && entry.price && entry.quantity) {
+        return (
+          !isNaN(parseFloat(String(entry.price))) &&
+          !isNaN(parseFloat(String(entry.quantity))) &&
+          parseFloat(String(entry.quantity)) > 0
+        );
+      }
+      return false;
+    })
+    .map((entry) => {
+      let price: string, quantity: string;
+
+      // Handle array format [price, quantity, orderNum]
+      if (Array.isArray(entry) && entry.length >= 2) {
+        [price, quantity] = entry;
+      } else {
+        // Handle object format {price, quantity}
+        price = entry.price;
+        quantity = entry.quantity;
+      }
+
+      // Keep wei format - no conversion
+      return {
+        price: String(price),
+        quantity: String(quantity),
+      };
+    })
+    .sort((a, b) => {
+      const priceA = parseFloat(a.price);
+      const priceB = parseFloat(b.price);
+
+      // Bids: sort descending (highest price first)
+      // Asks: sort ascending (lowest price first)
+      // Match ts-frontend: bids descending, asks ascending
+      if (side === "bids") {
+        return priceB - priceA; // Descending for bids
+      } else {
+        return priceA - priceB; // Ascending for asks
+      }
+    });
+}
+
+/** Convert a wei order book (as returned by `getOrderBook`) to normal units. */
+export function orderBookToNormal(book: OrderBook): OrderBook {
+  const toNormal = (levels: OrderBookEntry[]) =>
+    levels.map((l) => ({
+      price: formatWeiToNormal(l.price),
+      quantity: formatWeiToNormal(l.quantity),
+    }));
+  return { ...book, bids: toNormal(book.bids), asks: toNormal(book.asks) };
+}
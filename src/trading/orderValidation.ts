@@ -0,0 +1,257 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Pre-flight order validation against a {@link MarketSpec}: tick size, step
+ * size, min / max trade quantity (MARKET vs LIMIT), min / max order price and
+ * leverage cap. Values can optionally be snapped onto the tick / step grid.
+ */
+import BigNumber from "bignumber.js";
+import {
+  MarketSpec,
+  OrderRoundingMode,
+  OrderType,
+  OrderValidationIssue,
+  OrderValidationResult,
+} from "../types";
+
+/** Input accepted by {@link validateOrderAgainstSpec}. */
+export interface OrderValidationInput {
+  orderType: OrderType;
+  quantity: number | string;
+  price?: number | string;
+  leverage?: number | string;
+}
+
+/** Value after validation / rounding together with the issues it raised. */
+export interface CheckedValue {
+  value: string;
+  issues: OrderValidationIssue[];
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === "";
+
+const SNAP_ROUNDING: Record<"floor" | "nearest" | "ceil", BigNumber.RoundingMode> = {
+  floor: BigNumber.ROUND_FLOOR,
+  nearest: BigNumber.ROUND_HALF_UP,
+  ceil: BigNumber.ROUND_CEIL,
+};
+
+/**
+ * Snap a value onto a multiple of `increment`. Returns the value unchanged
+ * when the increment is zero / invalid.
+ */
+export function snapToIncrement(
+  value: BigNumber.Value,
+  increment: BigNumber.Value,
+  mode: "floor" | "nearest" | "ceil"
+): string {
+  const bn = new BigNumber(value);
+  const inc = new BigNumber(increment);
+  if (bn.isNaN() || inc.isNaN() || inc.lte(0)) return bn.toString(10);
+  const steps = bn.dividedBy(inc).integerValue(SNAP_ROUNDING[mode]);
+  return steps.multipliedBy(inc).toString(10);
+}
+
+/** True if `value` is an exact multiple of `increment` (or the increment is unset). */
+export function isMultipleOf(value: BigNumber.Value, increment: BigNumber.Value): boolean {
+  const inc = new BigNumber(increment);
+  if (inc.isNaN() || inc.lte(0)) return true;
+  return new BigNumber(value).modulo(inc).isZero();
+}
+
+/**
+ * Check a quantity against step size and the min / max trade quantity of the
+ * order type. With `rounding !== "reject"` an off-step value is snapped first.
+ */
+export function validateQuantityAgainstSpec(
+  field: string,
+  quantity: number | string,
+  spec: MarketSpec,
+  orderType: OrderType,
+  rounding: OrderRoundingMode = "reject"
+): CheckedValue {
+  const issues: OrderValidationIssue[] = [];
+  const raw = new BigNumber(isEmpty(quantity) ? NaN : quantity);
+  if (raw.isNaN() || raw.lte(0)) {
+    issues.push({
+      field,
+      code: "INVALID_QUANTITY",
+      message: `${field} must be greater than zero`,
+      value: String(quantity),
+    });
+    return { value: String(quantity), issues };
+  }
+
+  let value = raw.toString(10);
+  if (!isMultipleOf(raw, spec.stepSize)) {
+    if (rounding === "reject") {
+      issues.push({
+        field,
+        code: "QUANTITY_STEP",
+        message: `${field} ${value} is not a multiple of step size ${spec.stepSize}`,
+        value,
+        limit: spec.stepSize,
+      });
+    } else {
+      value = snapToIncrement(raw, spec.stepSize, rounding);
+    }
+  }
+
+  const bn = new BigNumber(value);
+  const min = new BigNumber(spec.minTradeQty);
+  const max = new BigNumber(
+    orderType === OrderType.MARKET ? spec.maxTradeQtyMarket : spec.maxTradeQtyLimit
+  );
+  if (min.gt(0) && bn.lt(min)) {
+    issues.push({
+      field,
+      code: "QUANTITY_BELOW_MIN",
+      message: `${field} ${value} is below the minimum trade quantity ${spec.minTradeQty}`,
+      value,
+      limit: spec.minTradeQty,
+    });
+  }
+  if (max.gt(0) && bn.gt(max)) {
+    issues.push({
+      field,
+      code: "QUANTITY_ABOVE_MAX",
+      message: `${field} ${value} exceeds the maximum ${orderType} quantity ${max.toString(10)}`,
+      value,
+      limit: max.toString(10),
+    });
+  }
+  return { value, issues };
+}
+
+/**
+ * Check a price against tick size and the min / max order price. With
+ * `rounding !== "reject"` an off-tick value is snapped first.
+ */
+export function validatePriceAgainstSpec(
+  field: string,
+  price: number | string,
+  spec: MarketSpec,
+  rounding: OrderRoundingMode = "reject"
+): CheckedValue {
+  const issues: OrderValidationIssue[] = [];
+  const raw = new BigNumber(isEmpty(price) ? NaN : price);
+  if (raw.isNaN() || raw.lte(0)) {
+    issues.push({
+      field,
+      code: "INVALID_PRICE",
+      message: `${field} must be greater than zero`,
+      value: String(price),
+    });
+    return { value: String(price), issues };
+  }
+
+  let value = raw.toString(10);
+  if (!isMultipleOf(raw, spec.tickSize)) {
+    if (rounding === "reject") {
+      issues.push({
+        field,
+        code: "PRICE_TICK",
+        message: `${field} ${value} is not a multiple of tick size ${spec.tickSize}`,
+        value,
+        limit: spec.tickSize,
+      });
+    } else {
+      value = snapToIncrement(raw, spec.tickSize, rounding);
+    }
+  }
+
+  const bn = new BigNumber(value);
+  const min = new BigNumber(spec.minOrderPrice);
+  const max = new BigNumber(spec.maxOrderPrice);
+  if (min.gt(0) && bn.lt(min)) {
+    issues.push({
+      field,
+      code: "PRICE_BELOW_MIN",
+      message: `${field} ${value} is below the minimum order price ${spec.minOrderPrice}`,
+      value,
+      limit: spec.minOrderPrice,
+    });
+  }
+  if (max.gt(0) && bn.gt(max)) {
+    issues.push({
+      field,
+      code: "PRICE_ABOVE_MAX",
+      message: `${field} ${value} exceeds the maximum order price ${spec.maxOrderPrice}`,
+      value,
+      limit: spec.maxOrderPrice,
+    });
+  }
+  return { value, issues };
+}
+
+/** Check leverage is positive and within the market's `maxLeverage` (when known). */
+export function validateLeverageAgainstSpec(
+  leverage: number | string,
+  spec: MarketSpec
+): OrderValidationIssue[] {
+  const bn = new BigNumber(isEmpty(leverage) ? NaN : leverage);
+  if (bn.isNaN() || bn.lte(0)) {
+    return [
+      {
+        field: "leverage",
+        code: "INVALID_LEVERAGE",
+        message: "leverage must be greater than zero",
+        value: String(leverage),
+      },
+    ];
+  }
+  if (spec.maxLeverage && bn.gt(spec.maxLeverage)) {
+    return [
+      {
+        field: "leverage",
+        code: "LEVERAGE_ABOVE_MAX",
+        message: `leverage ${bn.toString(10)} exceeds the maximum ${spec.maxLeverage}x for ${
+          spec.symbol
+        }`,
+        value: bn.toString(10),
+        limit: spec.maxLeverage,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validate (and optionally round) an order against its market spec. The
+ * price is only checked for LIMIT orders; MARKET orders are signed at 0.
+ */
+export function validateOrderAgainstSpec(
+  input: OrderValidationInput,
+  spec: MarketSpec,
+  rounding: OrderRoundingMode = "reject"
+): OrderValidationResult {
+  const quantity = validateQuantityAgainstSpec(
+    "quantity",
+    input.quantity,
+    spec,
+    input.orderType,
+    rounding
+  );
+  const issues = [...quantity.issues];
+
+  let price: string | undefined;
+  if (input.orderType === OrderType.LIMIT) {
+    const checked = validatePriceAgainstSpec("price", input.price ?? "", spec, rounding);
+    price = checked.value;
+    issues.push(...checked.issues);
+  } else if (!isEmpty(input.price)) {
+    price = String(input.price);
+  }
+
+  if (input.leverage !== undefined) {
+    issues.push(...validateLeverageAgainstSpec(input.leverage, spec));
+  }
+
+  return { valid: issues.length === 0, issues, quantity: quantity.value, price };
+}
+
+/** Join validation issues into a single error message. */
+export function formatValidationIssues(issues: OrderValidationIssue[]): string {
+  return `Order validation failed: ${issues.map((i) => i.message).join("; ")}`;
+}
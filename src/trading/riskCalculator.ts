@@ -0,0 +1,208 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Pre-trade risk math for isolated-margin positions (no network): initial
+ * margin, liquidation price and maximum openable size, using the market's
+ * `initialMarginReq` / `maintenanceMarginReq` / `defaultTakerFee`. All values
+ * are in normal units.
+ */
+import BigNumber from "bignumber.js";
+import { MarketSpec, OrderPreview, OrderPreviewInput, OrderSide, PositionSnapshot } from "../types";
+import { snapToIncrement } from "./orderValidation";
+
+/**
+ * Risk calculator bound to one market spec.
+ * @example
+ * ```typescript
+ * const calc = new RiskCalculator(spec);
+ * const preview = calc.preview({ side: OrderSide.BUY, quantity: "0.5", price: "95000", leverage: 10 });
+ * ```
+ */
+export class RiskCalculator {
+  constructor(private spec: MarketSpec) {}
+
+  /**
+   * Leverage actually applied: the requested leverage, capped by the
+   * market's `maxLeverage` and by `1 / initialMarginReq`.
+   */
+  effectiveLeverage(leverage: BigNumber.Value): BigNumber {
+    let value = new BigNumber(leverage);
+    if (value.isNaN() || value.lte(0)) {
+      throw new Error("leverage must be greater than zero");
+    }
+    const imr = new BigNumber(this.spec.initialMarginReq);
+    if (imr.gt(0)) value = BigNumber.min(value, new BigNumber(1).dividedBy(imr));
+    if (this.spec.maxLeverage) value = BigNumber.min(value, this.spec.maxLeverage);
+    return value;
+  }
+
+  /** Initial margin for `quantity` at `price`: notional / leverage. */
+  initialMargin(
+    quantity: BigNumber.Value,
+    price: BigNumber.Value,
+    leverage: BigNumber.Value
+  ): BigNumber {
+    return new BigNumber(quantity).multipliedBy(price).dividedBy(this.effectiveLeverage(leverage));
+  }
+
+  /** Taker fee on the notional of `quantity` at `price`. */
+  takerFee(quantity: BigNumber.Value, price: BigNumber.Value): BigNumber {
+    return new BigNumber(quantity).multipliedBy(price).multipliedBy(this.spec.defaultTakerFee || 0);
+  }
+
+  /**
+   * Isolated-margin liquidation price: the price at which position margin
+   * plus unrealized PnL equals the maintenance margin.
+   *  - long:  (entry × qty − margin) / (qty × (1 − mmr))
+   *  - short: (entry × qty + margin) / (qty × (1 + mmr))
+   * Returns undefined for an empty position; a long can return 0 when the
+   * margin covers the full notional.
+   */
+  liquidationPrice(position: PositionSnapshot): BigNumber | undefined {
+    const qty = new BigNumber(position.quantity).abs();
+    if (qty.isNaN() || qty.isZero()) return undefined;
+    const entryNotional = qty.multipliedBy(position.entryPrice);
+    const mmr = new BigNumber(this.spec.maintenanceMarginReq || 0);
+    const price = position.isLong
+      ? entryNotional
+          .minus(position.margin)
+          .dividedBy(qty.multipliedBy(new BigNumber(1).minus(mmr)))
+      : entryNotional.plus(position.margin).dividedBy(qty.multipliedBy(new BigNumber(1).plus(mmr)));
+    return BigNumber.max(price, 0);
+  }
+
+  /**
+   * Largest quantity whose initial margin plus taker fee fits in
+   * `freeCollateral`, snapped down to the step size and capped at the
+   * market's max trade quantity for the order type.
+   */
+  maxOrderSize(
+    freeCollateral: BigNumber.Value,
+    price: BigNumber.Value,
+    leverage: BigNumber.Value,
+    isMarket = false
+  ): BigNumber {
+    const collateral = new BigNumber(freeCollateral);
+    const px = new BigNumber(price);
+    if (collateral.lte(0) || px.lte(0)) return new BigNumber(0);
+    const perUnit = px.multipliedBy(
+      new BigNumber(1)
+        .dividedBy(this.effectiveLeverage(leverage))
+        .plus(this.spec.defaultTakerFee || 0)
+    );
+    let size = new BigNumber(
+      snapToIncrement(collateral.dividedBy(perUnit), this.spec.stepSize, "floor")
+    );
+    const cap = new BigNumber(isMarket ? this.spec.maxTradeQtyMarket : this.spec.maxTradeQtyLimit);
+    if (cap.gt(0)) size = BigNumber.min(size, cap);
+    return size;
+  }
+
+  /**
+   * Apply an order to an existing position: same-side orders add to the
+   * position at a blended entry; opposite-side orders reduce it (releasing
+   * margin pro rata) and open the remainder on the other side.
+   */
+  resultingPosition(
+    input: OrderPreviewInput,
+    leverage: BigNumber.Value
+  ): { position: PositionSnapshot | null; openingQuantity: BigNumber } {
+    const qty = new BigNumber(input.quantity);
+    const isLong = input.side === OrderSide.BUY;
+    const current = input.position;
+    const currentQty = current ? new BigNumber(current.quantity).abs() : new BigNumber(0);
+
+    if (!current || currentQty.isZero() || current.isLong === isLong) {
+      const newQty = currentQty.plus(qty);
+      const entry =
+        !current || currentQty.isZero()
+          ? new BigNumber(input.price)
+          : currentQty
+              .multipliedBy(current.entryPrice)
+              .plus(qty.multipliedBy(input.price))
+              .dividedBy(newQty);
+      const margin = new BigNumber(current?.margin || 0).plus(
+        this.initialMargin(qty, input.price, leverage)
+      );
+      return {
+        position: {
+          isLong,
+          quantity: newQty.toString(10),
+          entryPrice: entry.toString(10),
+          margin: margin.toString(10),
+        },
+        openingQuantity: qty,
+      };
+    }
+
+    if (qty.lte(currentQty)) {
+      const remaining = currentQty.minus(qty);
+      if (remaining.isZero()) return { position: null, openingQuantity: new BigNumber(0) };
+      return {
+        position: {
+          isLong: current.isLong,
+          quantity: remaining.toString(10),
+          entryPrice: current.entryPrice,
+          margin: new BigNumber(current.margin)
+            .multipliedBy(remaining)
+            .dividedBy(currentQty)
+            .toString(10),
+        },
+        openingQuantity: new BigNumber(0),
+      };
+    }
+
+    const flipped = qty.minus(currentQty);
+    return {
+      position: {
+        isLong,
+        quantity: flipped.toString(10),
+        entryPrice: new BigNumber(input.price).toString(10),
+        margin: this.initialMargin(flipped, input.price, leverage).toString(10),
+      },
+      openingQuantity: flipped,
+    };
+  }
+
+  /** Full pre-trade preview of an order. */
+  preview(input: OrderPreviewInput): OrderPreview {
+    const qty = new BigNumber(input.quantity);
+    const price = new BigNumber(input.price);
+    if (qty.isNaN() || qty.lte(0)) throw new Error("quantity must be greater than zero");
+    if (price.isNaN() || price.lte(0)) throw new Error("price must be greater than zero");
+
+    const leverage = this.effectiveLeverage(input.leverage);
+    const { position, openingQuantity } = this.resultingPosition(input, leverage);
+    const initialMargin = this.initialMargin(openingQuantity, price, leverage);
+    const fee = this.takerFee(qty, price);
+    const requiredMargin = initialMargin.plus(fee);
+
+    const preview: OrderPreview = {
+      symbol: this.spec.symbol,
+      side: input.side,
+      quantity: qty.toString(10),
+      price: price.toString(10),
+      leverage: leverage.toString(10),
+      notional: qty.multipliedBy(price).toString(10),
+      initialMargin: initialMargin.toString(10),
+      fee: fee.toString(10),
+      requiredMargin: requiredMargin.toString(10),
+      resultingPosition: position
+        ? { ...position, liquidationPrice: this.liquidationPrice(position)?.toString(10) }
+        : null,
+    };
+
+    if (input.freeCollateral !== undefined) {
+      preview.freeCollateral = new BigNumber(input.freeCollateral).toString(10);
+      preview.sufficientCollateral = requiredMargin.lte(input.freeCollateral);
+      preview.maxOrderSize = this.maxOrderSize(
+        input.freeCollateral,
+        price,
+        leverage,
+        input.isMarket
+      ).toString(10);
+    }
+    return preview;
+  }
+}
@@ -0,0 +1,82 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Scaled (ladder) order levels: evenly spaced prices between two bounds,
+ * snapped to the tick size, with the total quantity distributed over the
+ * levels on the step grid.
+ */
+import BigNumber from "bignumber.js";
+import { MarketSpec, ScaledOrderLevel, ScaledOrderParams } from "../types";
+import { snapToIncrement } from "./orderValidation";
+import { allocateSlices } from "./slicing";
+
+const DEFAULT_GEOMETRIC_RATIO = 1.5;
+
+/** Relative size per level for a distribution. */
+export function scaledWeights(
+  params: Pick<ScaledOrderParams, "count" | "distribution" | "ratio" | "weights">
+): number[] {
+  const { count, distribution } = params;
+  if (distribution === "custom") {
+    const weights = params.weights ?? [];
+    if (weights.length !== count) {
+      throw new Error(`custom distribution needs ${count} weights, got ${weights.length}`);
+    }
+    if (weights.some((w) => !Number.isFinite(w) || w < 0) || !weights.some((w) => w > 0)) {
+      throw new Error("custom weights must be non-negative and not all zero");
+    }
+    return weights;
+  }
+  if (distribution === "geometric") {
+    const ratio = params.ratio ?? DEFAULT_GEOMETRIC_RATIO;
+    if (!Number.isFinite(ratio) || ratio <= 0) throw new Error("ratio must be greater than zero");
+    return Array.from({ length: count }, (_, i) => Math.pow(ratio, i));
+  }
+  return new Array(count).fill(1);
+}
+
+/**
+ * Compute the ladder for {@link ScaledOrderParams}. Prices are snapped to
+ * the nearest tick, quantities down to the step size; levels whose size
+ * rounds to zero (or below `minTradeQty`) are merged into a neighbour, and
+ * levels that snap onto the same price are combined.
+ * @throws On invalid prices / count or when the total is below `minTradeQty`
+ */
+export function buildScaledLevels(
+  params: ScaledOrderParams,
+  spec: Pick<MarketSpec, "tickSize" | "stepSize" | "minTradeQty">
+): ScaledOrderLevel[] {
+  const from = new BigNumber(params.priceFrom);
+  const to = new BigNumber(params.priceTo);
+  if (from.isNaN() || from.lte(0) || to.isNaN() || to.lte(0)) {
+    throw new Error("priceFrom and priceTo must be greater than zero");
+  }
+  if (!Number.isInteger(params.count) || params.count < 1) {
+    throw new Error("count must be a positive integer");
+  }
+
+  const step = params.count > 1 ? to.minus(from).dividedBy(params.count - 1) : new BigNumber(0);
+  const prices = Array.from({ length: params.count }, (_, i) =>
+    snapToIncrement(from.plus(step.multipliedBy(i)), spec.tickSize, "nearest")
+  );
+  const quantities = allocateSlices(
+    params.totalQuantity,
+    scaledWeights(params),
+    spec.stepSize,
+    spec.minTradeQty
+  );
+
+  const levels: ScaledOrderLevel[] = [];
+  prices.forEach((price, i) => {
+    const quantity = new BigNumber(quantities[i]);
+    if (quantity.lte(0)) return;
+    const existing = levels.find((l) => new BigNumber(l.price).eq(price));
+    if (existing) {
+      existing.quantity = quantity.plus(existing.quantity).toString(10);
+    } else {
+      levels.push({ price, quantity: quantity.toString(10) });
+    }
+  });
+  return levels;
+}
@@ -0,0 +1,92 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Splitting a parent quantity into child slices on the market's step grid,
+ * used by the TWAP / VWAP, iceberg and scaled order helpers.
+ */
+import BigNumber from "bignumber.js";
+import { snapToIncrement } from "./orderValidation";
+
+/**
+ * Allocate `total` across slices proportionally to `weights`. Each slice is a
+ * multiple of `stepSize`; slices below `minTradeQty` are folded into the next
+ * slice (the last one into the previous), so every non-zero slice is
+ * tradeable. Zero slices are kept so indices line up with `weights`.
+ * @throws If `total` itself is below `minTradeQty`
+ */
+export function allocateSlices(
+  total: BigNumber.Value,
+  weights: number[],
+  stepSize: BigNumber.Value,
+  minTradeQty: BigNumber.Value = 0
+): string[] {
+  const target = new BigNumber(snapToIncrement(total, stepSize, "floor"));
+  const min = new BigNumber(minTradeQty);
+  if (target.lte(0) || (min.gt(0) && target.lt(min))) {
+    throw new Error(`Quantity ${total} is below the minimum trade quantity ${min.toString(10)}`);
+  }
+  if (weights.length === 0) return [target.toString(10)];
+
+  const cleaned = weights.map((w) => (Number.isFinite(w) && w > 0 ? w : 0));
+  const sum = cleaned.reduce((a, b) => a + b, 0);
+  const normalized = sum > 0 ? cleaned : cleaned.map(() => 1);
+  const weightSum = sum > 0 ? sum : normalized.length;
+
+  const slices = normalized.map(
+    (w) =>
+      new BigNumber(snapToIncrement(target.multipliedBy(w).dividedBy(weightSum), stepSize, "floor"))
+  );
+  // Rounding leftovers go to the heaviest slice
+  const leftover = target.minus(slices.reduce((a, b) => a.plus(b), new BigNumber(0)));
+  if (leftover.gt(0)) {
+    const heaviest = normalized.indexOf(Math.max(...normalized));
+    slices[heaviest] = slices[heaviest].plus(leftover);
+  }
+
+  if (min.gt(0)) {
+    for (let i = 0; i < slices.length - 1; i++) {
+      if (slices[i].gt(0) && slices[i].lt(min)) {
+        slices[i + 1] = slices[i + 1].plus(slices[i]);
+        slices[i] = new BigNumber(0);
+      }
+    }
+    const last = slices.length - 1;
+    if (slices[last].gt(0) && slices[last].lt(min)) {
+      let prev = last - 1;
+      while (prev >= 0 && slices[prev].isZero()) prev--;
+      if (prev >= 0) {
+        slices[prev] = slices[prev].plus(slices[last]);
+        slices[last] = new BigNumber(0);
+      }
+    }
+  }
+  return slices.map((s) => s.toString(10));
+}
+
+/**
+ * Pick a display size for the next iceberg child: uniformly random between
+ * `min` and `max`, snapped down to `stepSize`, never below `minTradeQty` and
+ * never above `remaining`. When what would be left afterwards is too small
+ * to trade, it is included in this child instead.
+ */
+export function randomDisplayQuantity(
+  min: BigNumber.Value,
+  max: BigNumber.Value,
+  remaining: BigNumber.Value,
+  stepSize: BigNumber.Value,
+  minTradeQty: BigNumber.Value = 0,
+  random: () => number = Math.random
+): string {
+  const lower = new BigNumber(min);
+  const upper = BigNumber.max(lower, max);
+  const rest = new BigNumber(snapToIncrement(remaining, stepSize, "floor"));
+  const floor = BigNumber.max(minTradeQty, stepSize);
+  if (rest.lte(0)) return "0";
+
+  const picked = lower.plus(upper.minus(lower).multipliedBy(random()));
+  let size = BigNumber.max(new BigNumber(snapToIncrement(picked, stepSize, "floor")), floor);
+  size = BigNumber.min(size, rest);
+  if (rest.minus(size).lt(floor)) size = rest;
+  return size.toString(10);
+}
@@ -0,0 +1,45 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Slippage protection for market orders: a protective limit price derived
+ * from a reference (mark / oracle) price and a maximum slippage fraction.
+ */
+import BigNumber from "bignumber.js";
+import { DEFAULT_SLIPPAGE } from "../constants";
+import { OrderSide } from "../types";
+import { snapToIncrement } from "./orderValidation";
+
+/**
+ * Resolve a `maxSlippage` option to a fraction: `true` selects
+ * {@link DEFAULT_SLIPPAGE}, numbers are used as-is (0.01 = 1%).
+ * @throws If the value is not a fraction in (0, 1)
+ */
+export function resolveMaxSlippage(maxSlippage: number | true): number {
+  const value = maxSlippage === true ? DEFAULT_SLIPPAGE : maxSlippage;
+  if (!Number.isFinite(value) || value <= 0 || value >= 1) {
+    throw new Error(`maxSlippage must be a fraction between 0 and 1, got ${maxSlippage}`);
+  }
+  return value;
+}
+
+/**
+ * Worst acceptable price for a taker order: `reference * (1 + slippage)` for
+ * BUY, `reference * (1 - slippage)` for SELL. When `tickSize` is given the
+ * price is snapped towards the reference so the tolerance is never exceeded.
+ */
+export function computeProtectivePrice(
+  reference: BigNumber.Value,
+  side: OrderSide,
+  maxSlippage: number,
+  tickSize?: BigNumber.Value
+): string {
+  const ref = new BigNumber(reference);
+  if (ref.isNaN() || ref.lte(0)) {
+    throw new Error("Reference price must be greater than zero");
+  }
+  const raw =
+    side === OrderSide.BUY ? ref.multipliedBy(1 + maxSlippage) : ref.multipliedBy(1 - maxSlippage);
+  if (tickSize === undefined) return raw.toString(10);
+  return snapToIncrement(raw, tickSize, side === OrderSide.BUY ? "floor" : "ceil");
+}
@@ -0,0 +1,78 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Maps the SDK's {@link TimeInForce} option onto the `postOnly` / `ioc` /
+ * `expiration` flags of the signed order object.
+ */
+import BigNumber from "bignumber.js";
+import { OrderBookEntry, OrderSide, OrderType, TimeInForce } from "../types";
+
+/** Order flags derived from a time-in-force. */
+export interface TimeInForceFlags {
+  postOnly: boolean;
+  ioc: boolean;
+  /** Expiry timestamp in ms (0 = no expiry) */
+  expiration: number;
+  /** True for FOK: the caller must check book depth before submitting */
+  requiresFullFill: boolean;
+}
+
+/**
+ * Resolve order flags for a time-in-force.
+ * @throws On invalid combinations (POST_ONLY on a MARKET order, GTD without a future expiry)
+ */
+export function resolveTimeInForce(
+  timeInForce: TimeInForce = "GTC",
+  orderType: OrderType,
+  expiration?: number,
+  now: number = Date.now()
+): TimeInForceFlags {
+  switch (timeInForce) {
+    case "GTC":
+      return { postOnly: false, ioc: false, expiration: 0, requiresFullFill: false };
+    case "IOC":
+      return { postOnly: false, ioc: true, expiration: 0, requiresFullFill: false };
+    case "FOK":
+      return { postOnly: false, ioc: true, expiration: 0, requiresFullFill: true };
+    case "POST_ONLY":
+      if (orderType !== OrderType.LIMIT) {
+        throw new Error("POST_ONLY time in force requires a LIMIT order");
+      }
+      return { postOnly: true, ioc: false, expiration: 0, requiresFullFill: false };
+    case "GTD":
+      if (!expiration || !Number.isFinite(expiration) || expiration <= now) {
+        throw new Error("GTD time in force requires a future `expiration` timestamp (ms)");
+      }
+      return { postOnly: false, ioc: false, expiration, requiresFullFill: false };
+    default:
+      throw new Error(`Unsupported time in force: ${timeInForce}`);
+  }
+}
+
+/**
+ * Check whether the opposite side of the book can fill `quantity` in full,
+ * optionally without crossing `limitPrice`. Book levels, quantity and price
+ * must all be expressed in the same units (e.g. wei, as returned by
+ * `getOrderBook`). Levels are expected best-first.
+ */
+export function bookCoversQuantity(
+  levels: OrderBookEntry[],
+  side: OrderSide,
+  quantity: BigNumber.Value,
+  limitPrice?: BigNumber.Value
+): boolean {
+  const target = new BigNumber(quantity);
+  const limit = limitPrice !== undefined ? new BigNumber(limitPrice) : undefined;
+  let filled = new BigNumber(0);
+  for (const level of levels) {
+    const price = new BigNumber(level.price);
+    if (limit && limit.gt(0)) {
+      const crosses = side === OrderSide.BUY ? price.lte(limit) : price.gte(limit);
+      if (!crosses) break;
+    }
+    filled = filled.plus(level.quantity);
+    if (filled.gte(target)) return true;
+  }
+  return false;
+}
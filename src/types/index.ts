@@ -55,6 +55,54 @@ export interface TradingPairsResponse {
   message?: string;
 }
 
+/**
+ * Market specification built from the deployment `markets.<symbol>.Config`
+ * block and merged with the live {@link TradingPair}. All numeric fields are
+ * in normal units (the deployment JSON stores them as 18-decimal wei strings).
+ */
+export interface MarketSpec {
+  /** Trading symbol (e.g. "BTC-PERP") */
+  symbol: string;
+  /** PerpetualID of the market */
+  perpId?: string;
+  /** Base asset symbol (e.g. "BTC") */
+  baseAssetSymbol?: string;
+  /** Quote asset symbol (e.g. "USDC") */
+  quoteAssetSymbol?: string;
+  /** Minimum price increment */
+  tickSize: string;
+  /** Minimum quantity increment */
+  stepSize: string;
+  /** Minimum order quantity */
+  minTradeQty: string;
+  /** Maximum quantity for a LIMIT order */
+  maxTradeQtyLimit: string;
+  /** Maximum quantity for a MARKET order */
+  maxTradeQtyMarket: string;
+  /** Minimum allowed order price */
+  minOrderPrice: string;
+  /** Maximum allowed order price */
+  maxOrderPrice: string;
+  /** Initial margin requirement as a ratio (e.g. "0.045" = 4.5%) */
+  initialMarginReq: string;
+  /** Maintenance margin requirement as a ratio */
+  maintenanceMarginReq: string;
+  /** Default maker fee rate (e.g. "0.00015" = 1.5 bps) */
+  defaultMakerFee: string;
+  /** Default taker fee rate */
+  defaultTakerFee: string;
+  /** Default leverage for new positions */
+  defaultLeverage?: string;
+  /** Maximum leverage advertised by the live trading pair, if available */
+  maxLeverage?: string;
+  /** Max open interest per leverage tier (index 0 = 1x) */
+  maxAllowedOIOpen: string[];
+  /** Trading start time in milliseconds */
+  tradingStartTime?: number;
+  /** Live trading pair data from `getTradingPairs()`, if it could be loaded */
+  pair?: TradingPair;
+}
+
 /**
  * User configuration (preferred leverage, margin type, etc.)
  */
@@ -95,11 +143,14 @@ export interface PlaceOrderParams {
   price?: number | string;
   /** Leverage multiplier */
   leverage: number | string;
-  /** Market ID (PerpetualID) - REQUIRED. This is the PerpetualID for the trading pair (e.g., "0xc1b1cf3d774bcfcbd6d71158a4259f2d99fccbf64ffc34f32700f8a771587d99") */
-  market: string;
+  /**
+   * Market ID (PerpetualID) for the trading pair (e.g., "0xc1b1cf3d774bcfcbd6d71158a4259f2d99fccbf64ffc34f32700f8a771587d99").
+   * Optional: resolved from `symbol` when omitted. If supplied it must match `symbol`.
+   */
+  market?: string;
   /** Reduce only flag - order will only reduce position, not increase */
   reduceOnly?: boolean;
-  /** Client order ID for tracking */
+  /** Client order ID for tracking (auto-generated when omitted) */
   clientId?: string;
   /** Take profit trigger price */
   tpTriggerPrice?: number | string;
@@ -121,6 +172,92 @@ export interface PlaceOrderParams {
    * Mirrors the `selectedAccount` flow in `ts-frontend/src/pages/perp`.
    */
   parentAddress?: string;
+  /**
+   * How to treat a quantity / price that is not a multiple of the market's
+   * `stepSize` / `tickSize`. `"reject"` (default) fails pre-flight validation,
+   * `"floor"` and `"nearest"` snap the value before signing.
+   */
+  rounding?: OrderRoundingMode;
+  /**
+   * Time in force (default "GTC"):
+   *  - `GTC`: rest on the book until filled or cancelled
+   *  - `IOC`: fill what is possible immediately, cancel the rest
+   *  - `FOK`: emulated client-side; rejected before submission unless visible
+   *    book depth can fill the full quantity, then sent as IOC
+   *  - `POST_ONLY`: maker-only LIMIT order, rejected if it would take liquidity
+   *  - `GTD`: rests until `expiration`
+   */
+  timeInForce?: TimeInForce;
+  /** Expiry timestamp in milliseconds (required for `timeInForce: "GTD"`) */
+  expiration?: number;
+  /**
+   * Slippage protection for MARKET orders, as a fraction (0.01 = 1%; `true`
+   * uses `DEFAULT_SLIPPAGE`). The order is sent as an IOC LIMIT order at the
+   * protective price and refused when visible depth cannot fill it in full.
+   */
+  maxSlippage?: number | true;
+  /** Reference price for `maxSlippage` (default "mark") */
+  slippageReference?: SlippageReference;
+}
+
+/**
+ * Reference price used for slippage protection
+ */
+export type SlippageReference = "mark" | "oracle";
+
+/**
+ * Order time in force
+ */
+export type TimeInForce = "GTC" | "IOC" | "FOK" | "POST_ONLY" | "GTD";
+
+/**
+ * Rounding mode applied to order quantity / price during pre-flight validation
+ */
+export type OrderRoundingMode = "floor" | "nearest" | "reject";
+
+/**
+ * Machine-readable code of a pre-flight validation failure
+ */
+export type OrderValidationCode =
+  | "INVALID_QUANTITY"
+  | "QUANTITY_STEP"
+  | "QUANTITY_BELOW_MIN"
+  | "QUANTITY_ABOVE_MAX"
+  | "INVALID_PRICE"
+  | "PRICE_TICK"
+  | "PRICE_BELOW_MIN"
+  | "PRICE_ABOVE_MAX"
+  | "INVALID_LEVERAGE"
+  | "LEVERAGE_ABOVE_MAX";
+
+/**
+ * A single pre-flight validation failure
+ */
+export interface OrderValidationIssue {
+  /** Offending field (e.g. "quantity", "price", "tpTriggerPrice") */
+  field: string;
+  /** Machine-readable failure code */
+  code: OrderValidationCode;
+  /** Human-readable message */
+  message: string;
+  /** Value as supplied by the caller */
+  value?: string;
+  /** Bound or increment the value was checked against */
+  limit?: string;
+}
+
+/**
+ * Result of validating an order against its {@link MarketSpec}
+ */
+export interface OrderValidationResult {
+  /** True when no issues were found */
+  valid: boolean;
+  /** Validation failures (empty when valid) */
+  issues: OrderValidationIssue[];
+  /** Quantity after rounding, in normal units */
+  quantity: string;
+  /** Price after rounding, in normal units (LIMIT orders / when supplied) */
+  price?: string;
 }
 
 /**
@@ -135,6 +272,45 @@ export interface CancelOrderParams {
   parentAddress?: string;
 }
 
+/**
+ * Parameters for replacing (amending) a resting order
+ */
+export interface ReplaceOrderParams {
+  /** Trading symbol */
+  symbol: string;
+  /** Hash of the resting order to replace */
+  orderHash: string;
+  /** New limit price (defaults to the original price) */
+  price?: number | string;
+  /** New quantity (defaults to the unfilled remainder of the original order) */
+  quantity?: number | string;
+  /** Parent address (optional, defaults to wallet address) */
+  parentAddress?: string;
+  /** Rounding applied to the new price / quantity (see {@link PlaceOrderParams.rounding}) */
+  rounding?: OrderRoundingMode;
+}
+
+/**
+ * Outcome of each leg of a replace: cancel, place and (if the place failed)
+ * the rollback that re-places the original order
+ */
+export interface ReplaceOrderResult {
+  /** The order that was replaced */
+  originalOrder: OpenOrder;
+  /** Whether the original order was cancelled */
+  cancelled: boolean;
+  /** Whether the replacement order was placed */
+  placed: boolean;
+  cancelResponse?: SDKResponse<OrderResponse>;
+  placeResponse?: SDKResponse<OrderResponse>;
+  /** Set when the replacement failed after the cancel succeeded */
+  rollback?: {
+    attempted: boolean;
+    succeeded: boolean;
+    response?: SDKResponse<OrderResponse>;
+  };
+}
+
 /**
  * Parameters for adjusting preferred leverage on server
  */
@@ -267,6 +443,43 @@ export interface OpenOrder {
   isLong: boolean;
   /** Reduce only flag */
   reduceOnly: boolean;
+  /** Client order ID (from the backend, or the SDK's local clientId map) */
+  clientId?: string;
+  /** Order flags and attached TP/SL (prices in wei), when the backend returns them */
+  timeInForce?: string;
+  postOnly?: boolean;
+  ioc?: boolean;
+  expiration?: string | number;
+  tpTriggerPrice?: string;
+  tpOrderType?: string;
+  tpOrderPrice?: string;
+  slTriggerPrice?: string;
+  slOrderType?: string;
+  slOrderPrice?: string;
+}
+
+/**
+ * Locally tracked order placed with a client order ID
+ */
+export interface ClientOrderRecord {
+  clientId: string;
+  symbol: string;
+  /** Exchange order hash, once known */
+  orderHash?: string;
+  parentAddress?: string;
+  /** Placement timestamp (ms) */
+  createdAt: number;
+}
+
+/**
+ * Result of {@link DipCoinPerpSDK.getOrderByClientId}
+ */
+export interface ClientOrderLookup {
+  record: ClientOrderRecord;
+  /** Matching open order, if the order is still resting */
+  openOrder?: OpenOrder;
+  /** Matching history order, if the order is no longer open */
+  historyOrder?: HistoryOrder;
 }
 
 /**
@@ -279,6 +492,8 @@ export interface SDKResponse<T = any> {
   data?: T;
   /** Error message if failed */
   error?: string;
+  /** Structured pre-flight validation failures (order placement only) */
+  validationErrors?: OrderValidationIssue[];
 }
 
 /**
@@ -303,6 +518,123 @@ export interface OrderResponse {
   data?: any;
   /** Response message */
   message?: string;
+  /** Client order ID the order was placed with (set by `placeOrder`) */
+  clientId?: string;
+}
+
+/**
+ * Options for batch order operations (`placeOrders` / `cancelOrders`)
+ */
+export interface BatchOptions {
+  /** Maximum number of requests in flight at once (default 5) */
+  concurrency?: number;
+}
+
+/**
+ * Outcome counts of a batch operation
+ */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+/**
+ * Result of a batch operation: per-item responses in input order plus a summary
+ */
+export interface BatchResult<T> {
+  results: SDKResponse<T>[];
+  summary: BatchSummary;
+}
+
+/**
+ * Parameters for `flattenAll`
+ */
+export interface FlattenAllParams {
+  /** Vault / sub-account to flatten (defaults to the wallet) */
+  parentAddress?: string;
+  /** Only flatten these symbols (defaults to every symbol with orders or a position) */
+  symbols?: string[];
+  /** Slippage bound for the closing MARKET orders (see {@link PlaceOrderParams.maxSlippage}) */
+  maxSlippage?: number | true;
+  /** Symbols processed at once (default 5) */
+  concurrency?: number;
+}
+
+/**
+ * Outcome of `flattenAll` for one symbol
+ */
+export interface FlattenSymbolReport {
+  symbol: string;
+  /** Hashes of the open orders that were cancelled */
+  cancelledOrders: string[];
+  /** Ids (or hashes) of the TP/SL plans that were cancelled */
+  cancelledPlans: string[];
+  /** Position closed by this call (normal units) */
+  closedPosition?: {
+    isLong: boolean;
+    quantity: string;
+    response: SDKResponse<OrderResponse>;
+  };
+  errors: string[];
+  /** True when every step for this symbol succeeded */
+  success: boolean;
+}
+
+/**
+ * Result of `flattenAll`
+ */
+export interface FlattenAllResult {
+  reports: FlattenSymbolReport[];
+  summary: BatchSummary;
+}
+
+/**
+ * Size distribution of a scaled order ladder:
+ *  - linear: equal size at every level
+ *  - geometric: each level is `ratio` times the previous one (from `priceFrom` to `priceTo`)
+ *  - custom: caller-provided `weights`, one per level
+ */
+export type ScaledDistribution = "linear" | "geometric" | "custom";
+
+/**
+ * Parameters for placing a ladder of LIMIT orders between two prices
+ */
+export interface ScaledOrderParams {
+  symbol: string;
+  side: OrderSide;
+  /** Total quantity across all levels */
+  totalQuantity: number | string;
+  /** First level price */
+  priceFrom: number | string;
+  /** Last level price */
+  priceTo: number | string;
+  /** Number of levels (prices are evenly spaced) */
+  count: number;
+  distribution: ScaledDistribution;
+  /** Size ratio between consecutive levels for "geometric" (default 1.5) */
+  ratio?: number;
+  /** Relative size per level for "custom" (length must equal `count`) */
+  weights?: number[];
+  leverage: number | string;
+  reduceOnly?: boolean;
+  timeInForce?: TimeInForce;
+  parentAddress?: string;
+}
+
+/**
+ * One level of a scaled order ladder (normal units, snapped to the market grid)
+ */
+export interface ScaledOrderLevel {
+  price: string;
+  quantity: string;
+}
+
+/**
+ * Result of `placeScaledOrders`: the computed ladder plus the batch result
+ */
+export interface ScaledOrdersResult extends BatchResult<OrderResponse> {
+  levels: ScaledOrderLevel[];
 }
 
 /**
@@ -388,6 +720,92 @@ export interface OrderBook {
   symbol?: string;
 }
 
+/**
+ * Estimated execution of a taker order against the visible order book.
+ * Prices, quantities and fees are in normal units.
+ */
+export interface ExecutionEstimate {
+  symbol: string;
+  side: OrderSide;
+  /** Requested quantity */
+  quantity: string;
+  /** Quantity the visible book can fill */
+  filledQuantity: string;
+  /** Quantity left over once visible depth is exhausted */
+  unfilledQuantity: string;
+  fullyFilled: boolean;
+  /** Volume-weighted average fill price (undefined when nothing fills) */
+  averagePrice?: string;
+  /** Price of the last level touched */
+  worstPrice?: string;
+  midPrice?: string;
+  /** Adverse slippage of the average price versus mid, in basis points */
+  slippageBps?: string;
+  /** Filled notional (quantity × price) */
+  notional: string;
+  /** Taker fee rate from the market spec (fraction of notional) */
+  takerFeeRate: string;
+  /** Taker fee on the filled notional */
+  takerFee: string;
+  /** Number of book levels consumed */
+  levelsConsumed: number;
+}
+
+/**
+ * Isolated position used by the risk calculator (normal units)
+ */
+export interface PositionSnapshot {
+  isLong: boolean;
+  quantity: string;
+  entryPrice: string;
+  margin: string;
+  /** Filled in by the calculator for resulting positions */
+  liquidationPrice?: string;
+}
+
+/**
+ * Input of {@link RiskCalculator.preview} (normal units)
+ */
+export interface OrderPreviewInput {
+  side: OrderSide;
+  quantity: number | string;
+  /** Expected fill price */
+  price: number | string;
+  leverage: number | string;
+  /** Free collateral available; enables the collateral check and `maxOrderSize` */
+  freeCollateral?: number | string;
+  /** Existing position in the same market */
+  position?: PositionSnapshot;
+  /** Use the MARKET max trade quantity for `maxOrderSize` */
+  isMarket?: boolean;
+}
+
+/**
+ * Pre-trade preview of an order (normal units)
+ */
+export interface OrderPreview {
+  symbol: string;
+  side: OrderSide;
+  quantity: string;
+  /** Expected fill price used for the preview */
+  price: string;
+  /** Leverage after the market caps are applied */
+  leverage: string;
+  notional: string;
+  /** Initial margin for the position-increasing part of the order */
+  initialMargin: string;
+  /** Estimated taker fee */
+  fee: string;
+  /** Initial margin plus fee */
+  requiredMargin: string;
+  freeCollateral?: string;
+  sufficientCollateral?: boolean;
+  /** Largest openable size at this price and leverage */
+  maxOrderSize?: string;
+  /** Position after the order fills (null when it closes the position) */
+  resultingPosition: PositionSnapshot | null;
+}
+
 /**
  * Order book response
  */
@@ -430,8 +848,8 @@ export interface TpSlOrderConfig {
 export interface PlaceTpSlOrdersParams {
   /** Trading symbol */
   symbol: string;
-  /** Market ID (PerpetualID) */
-  market: string;
+  /** Market ID (PerpetualID). Optional: resolved from `symbol` when omitted. */
+  market?: string;
   /** Closing side (BUY to close short, SELL to close long) */
   side: OrderSide;
   /** Whether the existing position is long */
@@ -452,6 +870,8 @@ export interface PlaceTpSlOrdersParams {
   tp?: TpSlOrderConfig;
   /** Stop loss configuration */
   sl?: TpSlOrderConfig;
+  /** Rounding mode for trigger / order prices and quantities (default "reject") */
+  rounding?: OrderRoundingMode;
 }
 
 /**
@@ -599,6 +1019,7 @@ export interface PaginatedQuery {
 
 export interface HistoryOrder {
   hash?: string;
+  clientId?: string;
   symbol?: string;
   side?: string;
   status?: string;
@@ -875,6 +1296,10 @@ export interface CloseOnChainPositionParams {
   quantity?: number | string;
   /** Optional gas budget */
   gasBudget?: number;
+  /** Slippage protection for the closing order (see {@link PlaceOrderParams.maxSlippage}) */
+  maxSlippage?: number | true;
+  /** Reference price for `maxSlippage` (default "mark") */
+  slippageReference?: SlippageReference;
 }
 
 export interface SubAccountAuthParams {
@@ -1146,10 +1571,122 @@ export interface WsClientOptions {
   walletAddress?: string;
   /** Auto-reconnect on disconnect (default true) */
   autoReconnect?: boolean;
-  /** Reconnect delay in ms (default 3000) */
+  /** Initial reconnect delay in ms (default 3000), doubled per failed attempt */
   reconnectDelayMs?: number;
+  /** Upper bound of the reconnect delay in ms (default 60000) */
+  maxReconnectDelayMs?: number;
+  /** Backoff multiplier applied per attempt (default 2) */
+  reconnectBackoffFactor?: number;
+  /** Random share of each delay, 0..1 (default 0.3): a 10s delay with 0.3 waits 7-10s */
+  reconnectJitter?: number;
+  /** Give up after this many consecutive failed attempts (default unlimited) */
+  maxReconnectAttempts?: number;
+  /** Fail `connect()` when the socket is not open after this many ms (default 10000) */
+  connectTimeoutMs?: number;
   /** Heartbeat interval in ms (default 25000). Set to 0 to disable. */
   heartbeatIntervalMs?: number;
   /** Heartbeat ping payload (defaults to `{ "op": "ping" }`) */
   heartbeatPayload?: Record<string, any>;
+  /** Optional hook applied to every parsed message before listeners run */
+  transformMessage?: (msg: unknown) => unknown;
+  /**
+   * Credentials provider called before every (re)connect; overrides
+   * `authToken` / `walletAddress` when it returns a value
+   */
+  resolveAuth?: (context: WsAuthContext) => Promise<WsAuth | undefined>;
+}
+
+/**
+ * What a subscription iterator does when its buffer is full: drop the oldest
+ * buffered frame, drop the incoming frame, or fail the iterator.
+ */
+export type WsOverflowPolicy = "dropOldest" | "dropNewest" | "error";
+
+export interface WsSubscriptionOptions {
+  /** Frames buffered per iterator (default 1000) */
+  bufferSize?: number;
+  /** Policy once the buffer is full (default `dropOldest`) */
+  overflow?: WsOverflowPolicy;
+}
+
+/** Credentials sent as `token` / `address` query parameters on connect. */
+export interface WsAuth {
+  authToken?: string;
+  walletAddress?: string;
+}
+
+/** Passed to `resolveAuth`: why the previous connection (if any) closed. */
+export interface WsAuthContext {
+  closeCode?: number;
+  closeReason?: string;
+}
+
+/**
+ * WS connection state. `reconnecting` covers the wait before the next attempt
+ * and the attempt itself; `failed` means `maxReconnectAttempts` ran out.
+ */
+export type WsConnectionState = "connecting" | "open" | "reconnecting" | "closed" | "failed";
+
+export interface WsStateChangeEvent {
+  state: WsConnectionState;
+  previousState: WsConnectionState;
+  /** Reconnect attempt number (1-based) for `reconnecting` / `failed` */
+  attempt?: number;
+  /** Delay before the next attempt in ms (`reconnecting`) */
+  delayMs?: number;
+  /** Close code and reason of the socket that dropped */
+  code?: number;
+  reason?: string;
+  /** Connect or socket error that caused the change */
+  error?: string;
 }
+
+/**
+ * Trade from the `tradeList` channel. Price and quantity are in wei, like the
+ * order book.
+ */
+export interface WsTrade {
+  symbol?: string;
+  price: string;
+  quantity: string;
+  side?: string;
+  timestamp?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Decoded WS frame of one channel. `data` has the same shape (and units) as
+ * the matching REST method; `raw` is the frame as received.
+ */
+export interface WsChannelMessage<C extends string, T> {
+  channel: C;
+  symbol?: string;
+  data: T;
+  raw: unknown;
+}
+
+export type WsOrderBookMessage = WsChannelMessage<"orderBook", OrderBook>;
+export type WsTickerMessage = WsChannelMessage<"ticker", Ticker>;
+export type WsTickersMessage = WsChannelMessage<"tickers", Ticker[]>;
+export type WsKlineMessage = WsChannelMessage<"kline", KlineBar[]>;
+export type WsTradeListMessage = WsChannelMessage<"tradeList", WsTrade[]>;
+export type WsAccountMessage = WsChannelMessage<"account", AccountInfo>;
+export type WsPositionMessage = WsChannelMessage<"position", Position[]>;
+export type WsOrderMessage = WsChannelMessage<"order", OpenOrder[]>;
+
+/** Discriminated union of decoded WS frames, keyed by `channel`. */
+export type WsMessage =
+  | WsOrderBookMessage
+  | WsTickerMessage
+  | WsTickersMessage
+  | WsKlineMessage
+  | WsTradeListMessage
+  | WsAccountMessage
+  | WsPositionMessage
+  | WsOrderMessage;
+
+/** Channels with a typed decoder. */
+export type WsMessageChannel = WsMessage["channel"];
+
+/** Decoded message type of `channel`. */
+export type WsMessageOf<C extends WsMessageChannel> = Extract<WsMessage, { channel: C }>;
@@ -172,6 +172,26 @@ export function formatNormalToWeiBN(value: number | string, decimals = 18): BigN
   return bn.multipliedBy(new BigNumber(10).pow(decimals));
 }
 
+/**
+ * Format wei value to normal units
+ * Match ts-frontend: formatWeiToNormal function
+ * @param value Value in wei (string or number)
+ * @param decimals Number of decimals (default 18)
+ * @returns Formatted string in normal units ("0" for empty or invalid values)
+ */
+export function formatWeiToNormal(value: number | string, decimals = 18): string {
+  try {
+    const bn = new BigNumber(value);
+    if (bn.isNaN() || bn.isZero()) {
+      return "0";
+    }
+    return bn.dividedBy(new BigNumber(10).pow(decimals)).toString();
+  } catch (error) {
+    console.error("Error converting wei to normal:", error);
+    return "0";
+  }
+}
+
 /**
  * Format error to string
  * @param error Error object
@@ -187,6 +207,49 @@ export function formatError(error: unknown): string {
   return String(error);
 }
 
+/**
+ * Expiry of a JWT from its `exp` claim
+ * @param token JWT
+ * @returns Expiry in ms since epoch, or undefined when the token has no readable `exp`
+ */
+export function getJwtExpiry(token: string): number | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const claims = JSON.parse(Buffer.from(base64, "base64").toString("utf8"));
+    const exp = Number(claims?.exp);
+    return Number.isFinite(exp) && exp > 0 ? exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map over items with at most `concurrency` calls of `fn` in flight.
+ * Results are returned in input order.
+ * @param items Items to process
+ * @param concurrency Maximum parallel calls (at least 1)
+ * @param fn Async mapper
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
 /**
  * Get the directory of the current module
  * Works for both ESM and CommonJS
@@ -292,3 +355,5 @@ export function readFile(filePath: string): any {
   }
   return config;
 }
+
+export * from "./listeners";
@@ -0,0 +1,31 @@
+// Copyright (c) 2025 Dipcoin LLC
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Listener set used by the strategy managers and local stores (such as
+ * `OrderBookStore`) for their events. Mirrors `WsClient.onMessage`: adding a
+ * listener returns an unsubscribe function and a throwing listener never
+ * breaks the others.
+ */
+export class Listeners<T> {
+  private listeners = new Set<(event: T) => void>();
+
+  add(cb: (event: T) => void): () => void {
+    this.listeners.add(cb);
+    return () => this.listeners.delete(cb);
+  }
+
+  emit(event: T): void {
+    for (const cb of this.listeners) {
+      try {
+        cb(event);
+      } catch (e) {
+        console.error("Listener threw:", e);
+      }
+    }
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import type { DipCoinPerpSDK } from "../../src/sdk";
+import type { WsClient } from "../../src/services/wsClient";
+import { OrderBookStore } from "../../src/services/orderBookStore";
+import { OrderBook, SDKResponse } from "../../src/types";
+
+// src/utils pulls in the Sui SDK; the store only needs formatError from it
+jest.mock("../../src/utils", () => ({ formatError: (error: unknown) => String(error) }));
+
+const SYMBOL = "BTC-PERP";
+
+type Handler = (msg: unknown) => void;
+
+function fakeWs() {
+  const handlers = new Set<Handler>();
+  const ws = {
+    onMessage: (cb: Handler) => {
+      handlers.add(cb);
+      return () => handlers.delete(cb);
+    },
+    released: 0,
+    subscribe: () => ({
+      unsubscribe: () => {
+        ws.released++;
+      },
+    }),
+    unsubscribe: () => {
+      throw new Error("ws.unsubscribe would end other consumers' handles");
+    },
+  };
+  const send = (data: Record<string, unknown>) =>
+    handlers.forEach((cb) => cb({ channel: "orderBook", data: { symbol: SYMBOL, ...data } }));
+  return { ws: ws as unknown as WsClient, send, released: () => ws.released };
+}
+
+function fakeSdk(books: OrderBook[]) {
+  const calls: Array<(result: SDKResponse<OrderBook>) => void> = [];
+  let manual = false;
+  const sdk = {
+    getOrderBook: () => {
+      const book = books[Math.min(calls.length, books.length - 1)];
+      return new Promise<SDKResponse<OrderBook>>((resolve) => {
+        calls.push(resolve);
+        if (!manual) resolve({ status: true, data: book });
+      });
+    },
+  };
+  return {
+    sdk: sdk as unknown as DipCoinPerpSDK,
+    calls,
+    /** Hold REST snapshots until `calls[i]` is resolved by the test. */
+    hold: () => {
+      manual = true;
+    },
+  };
+}
+
+const book = (bids: [string, string][], asks: [string, string][]): OrderBook => ({
+  symbol: SYMBOL,
+  bids: bids.map(([price, quantity]) => ({ price, quantity })),
+  asks: asks.map(([price, quantity]) => ({ price, quantity })),
+});
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("OrderBookStore", () => {
+  it("applies in-order deltas on top of the REST snapshot", async () => {
+    const { ws, send } = fakeWs();
+    const { sdk } = fakeSdk([
+      book(
+        [
+          ["100", "1"],
+          ["99", "2"],
+        ],
+        [["101", "1"]]
+      ),
+    ]);
+    const store = new OrderBookStore(sdk, { symbol: SYMBOL, ws });
+    await store.start();
+    expect(store.isReady()).toBe(true);
+
+    send({ seq: 1, bids: [["100", "0"]], asks: [["102", "3"]] });
+    send({ seq: 2, bids: [["99.5", "4"]] });
+
+    expect(store.bestBid()).toEqual({ price: "99.5", quantity: "4" });
+    expect(store.getBook().asks).toEqual([
+      { price: "101", quantity: "1" },
+      { price: "102", quantity: "3" },
+    ]);
+    expect(store.midPrice()).toBe("100.25");
+  });
+
+  it("ignores stale frames and re-snapshots on a sequence gap", async () => {
+    const { ws, send } = fakeWs();
+    const { sdk, calls } = fakeSdk([
+      book([["100", "1"]], [["101", "1"]]),
+      book([["98", "5"]], [["101", "1"]]),
+    ]);
+    const store = new OrderBookStore(sdk, { symbol: SYMBOL, ws });
+    const reasons: string[] = [];
+    store.onResync(({ reason }) => reasons.push(reason));
+    await store.start();
+
+    send({ seq: 5, bids: [["100", "2"]] });
+    send({ seq: 5, bids: [["100", "9"]] });
+    expect(store.bestBid()).toEqual({ price: "100", quantity: "2" });
+
+    send({ seq: 7, bids: [["100", "3"]] });
+    await flush();
+    expect(calls).toHaveLength(2);
+    expect(reasons).toEqual(["start", "gap"]);
+    expect(store.bestBid()).toEqual({ price: "98", quantity: "5" });
+  });
+
+  it("buffers frames received while the snapshot is in flight", async () => {
+    const { ws, send } = fakeWs();
+    const { sdk, calls, hold } = fakeSdk([book([["100", "1"]], [["101", "1"]])]);
+    hold();
+    const store = new OrderBookStore(sdk, { symbol: SYMBOL, ws });
+    const started = store.start();
+    await flush();
+
+    send({ seq: 1, bids: [["100.5", "1"]] });
+    send({ symbol: "ETH-PERP", seq: 2, bids: [["1", "1"]] });
+    expect(store.isReady()).toBe(false);
+
+    calls[0]({ status: true, data: book([["100", "1"]], [["101", "1"]]) });
+    await started;
+    expect(store.bestBid()).toEqual({ price: "100.5", quantity: "1" });
+  });
+
+  it("re-snapshots a crossed book", async () => {
+    const { ws, send } = fakeWs();
+    const { sdk, calls } = fakeSdk([
+      book([["100", "1"]], [["101", "1"]]),
+      book([["100", "1"]], [["101", "1"]]),
+    ]);
+    const store = new OrderBookStore(sdk, { symbol: SYMBOL, ws });
+    const changes: string[] = [];
+    store.onChange(({ source }) => changes.push(source));
+    await store.start();
+
+    send({ bids: [["102", "1"]] });
+    await flush();
+    expect(calls).toHaveLength(2);
+    expect(changes).toEqual(["snapshot", "snapshot"]);
+    expect(store.bestBid()).toEqual({ price: "100", quantity: "1" });
+  });
+
+  it("replaces the book on snapshot frames", async () => {
+    const { ws, send } = fakeWs();
+    const { sdk } = fakeSdk([book([["100", "1"]], [["101", "1"]])]);
+    const store = new OrderBookStore(sdk, { symbol: SYMBOL, ws });
+    await store.start();
+
+    send({ type: "snapshot", seq: 10, bids: [{ price: "90", quantity: "1" }], asks: [] });
+    expect(store.getBook()).toMatchObject({
+      bids: [{ price: "90", quantity: "1" }],
+      asks: [],
+    });
+    expect(store.cumulativeDepth(1).bids).toEqual([
+      { price: "90", quantity: "1", cumulativeQuantity: "1" },
+    ]);
+  });
+
+  it("releases only its own subscription handle on stop", async () => {
+    const { ws, released } = fakeWs();
+    const { sdk } = fakeSdk([book([["100", "1"]], [["101", "1"]])]);
+    const store = new OrderBookStore(sdk, { symbol: SYMBOL, ws });
+    await store.start();
+    store.stop();
+    expect(released()).toBe(1);
+    expect(store.isReady()).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { WsClient } from "../../src/services/wsClient";
+import { WsClientOptions, WsStateChangeEvent } from "../../src/types";
+
+// src/utils pulls in the Sui SDK; the client only formats errors with it here
+jest.mock("../../src/utils", () => ({
+  formatError: (error: unknown) => String(error),
+  formatWeiToNormal: (value: unknown) => String(value),
+}));
+
+/** How the next sockets behave: open, get refused, or never answer. */
+type Behavior = "open" | "refuse" | "hang";
+
+class FakeSocket {
+  static behavior: Behavior = "open";
+  static instances: FakeSocket[] = [];
+  sent: Array<{ op: string; args?: unknown[] }> = [];
+  closed = false;
+  onopen?: () => void;
+  onclose?: (event: { code: number; reason: string }) => void;
+  onerror?: (error: unknown) => void;
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+    if (FakeSocket.behavior === "open") queueMicrotask(() => this.onopen?.());
+    if (FakeSocket.behavior === "refuse") queueMicrotask(() => this.drop(1006));
+  }
+
+  send(frame: string) {
+    this.sent.push(JSON.parse(frame));
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.({ code: 1000, reason: "" });
+  }
+
+  /** Server-side close. */
+  drop(code: number) {
+    this.closed = true;
+    this.onclose?.({ code, reason: "" });
+  }
+}
+
+// setImmediate stays real so rejected attempts can settle between timer steps
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+async function advance(ms: number): Promise<void> {
+  jest.advanceTimersByTime(ms);
+  await flush();
+}
+
+describe("WsClient reconnect", () => {
+  const globals = globalThis as { WebSocket?: unknown };
+  const original = globals.WebSocket;
+  let client: WsClient | undefined;
+
+  beforeEach(() => {
+    // The performance global is read-only on recent Node versions
+    jest.useFakeTimers({ doNotFake: ["setImmediate", "performance"] });
+    FakeSocket.behavior = "open";
+    FakeSocket.instances = [];
+    globals.WebSocket = FakeSocket;
+  });
+
+  afterEach(() => {
+    client?.close();
+    client = undefined;
+    globals.WebSocket = original;
+    jest.useRealTimers();
+  });
+
+  async function connect(options: Partial<WsClientOptions> = {}) {
+    client = new WsClient({
+      url: "wss://example.test",
+      heartbeatIntervalMs: 0,
+      reconnectDelayMs: 100,
+      maxReconnectDelayMs: 500,
+      reconnectJitter: 0,
+      ...options,
+    });
+    const events: WsStateChangeEvent[] = [];
+    client.onStateChange((event) => events.push(event));
+    const connected = client.connect();
+    await advance(0);
+    await connected;
+    return { client, events, socket: FakeSocket.instances[0] };
+  }
+
+  const delays = (events: WsStateChangeEvent[]) =>
+    events.filter((e) => e.state === "reconnecting").map((e) => e.delayMs);
+
+  it("backs off exponentially up to maxReconnectDelayMs", async () => {
+    const { events, socket } = await connect();
+    FakeSocket.behavior = "refuse";
+    socket.drop(1006);
+    for (const delay of [100, 200, 400, 500]) await advance(delay);
+
+    expect(delays(events)).toEqual([100, 200, 400, 500, 500]);
+    expect(events.filter((e) => e.state === "reconnecting").map((e) => e.attempt)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(FakeSocket.instances).toHaveLength(5);
+
+    // A successful reconnect starts the backoff over
+    FakeSocket.behavior = "open";
+    await advance(500);
+    expect(client?.getState()).toBe("open");
+    FakeSocket.instances[5].drop(1006);
+    expect(delays(events).slice(-1)).toEqual([100]);
+  });
+
+  it("moves to failed once maxReconnectAttempts is used up", async () => {
+    const { events, socket } = await connect({ maxReconnectAttempts: 2 });
+    FakeSocket.behavior = "refuse";
+    socket.drop(1006);
+    await advance(100);
+    await advance(200);
+
+    expect(client?.getState()).toBe("failed");
+    expect(events[events.length - 1]).toMatchObject({ state: "failed", attempt: 2 });
+    await advance(10_000);
+    expect(FakeSocket.instances).toHaveLength(3);
+  });
+
+  it("rejects connect() when the socket does not open within connectTimeoutMs", async () => {
+    FakeSocket.behavior = "hang";
+    client = new WsClient({ url: "wss://example.test", connectTimeoutMs: 1000 });
+    const connected = client.connect();
+    const rejected = expect(connected).rejects.toThrow("timed out after 1000ms");
+
+    await advance(999);
+    expect(client.getState()).toBe("connecting");
+    await advance(1);
+    await rejected;
+
+    expect(client.getState()).toBe("closed");
+    expect(FakeSocket.instances[0].closed).toBe(true);
+    // The first connect is not retried
+    await advance(60_000);
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+
+  it("reconnects right away with new credentials via refreshAuth", async () => {
+    const { client, events, socket } = await connect({ authToken: "old" });
+    client.subscribe({ channel: "order" });
+    client.refreshAuth("new");
+
+    expect(socket.closed).toBe(true);
+    expect(events[events.length - 1]).toMatchObject({
+      state: "reconnecting",
+      reason: "auth changed",
+      delayMs: 0,
+    });
+    const next = FakeSocket.instances[1];
+    expect(next.url).toBe("wss://example.test?token=new");
+
+    await advance(0);
+    expect(client.getState()).toBe("open");
+    expect(next.sent).toEqual([{ op: "subscribe", args: [{ channel: "order" }] }]);
+    // The old socket's close is not treated as a drop
+    expect(FakeSocket.instances).toHaveLength(2);
+  });
+
+  it("does not reconnect after close()", async () => {
+    const { client, events, socket } = await connect();
+    client.close();
+    expect(socket.closed).toBe(true);
+    expect(client.getState()).toBe("closed");
+    await advance(10_000);
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(delays(events)).toEqual([]);
+  });
+
+  it("cancels a scheduled reconnect on close()", async () => {
+    const { client, socket } = await connect();
+    socket.drop(1006);
+    expect(client.getState()).toBe("reconnecting");
+    client.close();
+    await advance(10_000);
+    expect(client.getState()).toBe("closed");
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+});
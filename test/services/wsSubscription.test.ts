@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { WsClient } from "../../src/services/wsClient";
+import { WsSubscription, matchesSubscription } from "../../src/services/wsSubscription";
+import { WsSubscriptionOptions } from "../../src/types";
+
+// src/utils pulls in the Sui SDK; the client only formats errors with it here
+jest.mock("../../src/utils", () => ({
+  formatError: (error: unknown) => String(error),
+  formatWeiToNormal: (value: unknown) => String(value),
+}));
+
+const ticker = (symbol: string, seq: number) => ({ channel: "ticker", data: { symbol, seq } });
+
+function handle(options?: WsSubscriptionOptions) {
+  const released: WsSubscription[] = [];
+  const sub = new WsSubscription({ channel: "ticker", symbol: "BTC-PERP" }, options, (s) =>
+    released.push(s)
+  );
+  return { sub, released };
+}
+
+describe("matchesSubscription", () => {
+  it("matches on channel and the keys the frame carries", () => {
+    const params = { channel: "kline", symbol: "BTC-PERP", interval: "1m" };
+    expect(matchesSubscription(params, { arg: params, data: [] })).toBe(true);
+    expect(matchesSubscription(params, { channel: "kline", data: { symbol: "BTC-PERP" } })).toBe(
+      true
+    );
+    expect(
+      matchesSubscription(params, { channel: "kline", symbol: "BTC-PERP", interval: "5m" })
+    ).toBe(false);
+    expect(matchesSubscription(params, { channel: "ticker", symbol: "BTC-PERP" })).toBe(false);
+    expect(matchesSubscription(params, { channel: "kline", data: [{ symbol: "ETH-PERP" }] })).toBe(
+      false
+    );
+  });
+});
+
+describe("WsSubscription", () => {
+  it("delivers to handlers and keeps going when one throws", () => {
+    const { sub } = handle();
+    const seen: unknown[] = [];
+    const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+    sub.onMessage(() => {
+      throw new Error("boom");
+    });
+    const remove = sub.onMessage((msg) => seen.push(msg));
+    sub.dispatch(ticker("BTC-PERP", 1));
+    remove();
+    sub.dispatch(ticker("BTC-PERP", 2));
+    expect(seen).toEqual([ticker("BTC-PERP", 1)]);
+    error.mockRestore();
+  });
+
+  it("drops the oldest buffered frame by default", async () => {
+    const { sub } = handle({ bufferSize: 2 });
+    const iterator = sub[Symbol.asyncIterator]();
+    [1, 2, 3].forEach((seq) => sub.dispatch(ticker("BTC-PERP", seq)));
+    expect((await iterator.next()).value).toEqual(ticker("BTC-PERP", 2));
+    expect((await iterator.next()).value).toEqual(ticker("BTC-PERP", 3));
+  });
+
+  it("drops incoming frames with dropNewest", async () => {
+    const { sub } = handle({ bufferSize: 2, overflow: "dropNewest" });
+    const iterator = sub[Symbol.asyncIterator]();
+    [1, 2, 3].forEach((seq) => sub.dispatch(ticker("BTC-PERP", seq)));
+    expect((await iterator.next()).value).toEqual(ticker("BTC-PERP", 1));
+    expect((await iterator.next()).value).toEqual(ticker("BTC-PERP", 2));
+  });
+
+  it("fails the iterator on overflow with error", async () => {
+    const { sub } = handle({ bufferSize: 1, overflow: "error" });
+    const iterator = sub[Symbol.asyncIterator]();
+    [1, 2].forEach((seq) => sub.dispatch(ticker("BTC-PERP", seq)));
+    await expect(iterator.next()).rejects.toThrow("buffer overflow (1 messages)");
+    expect((await iterator.next()).done).toBe(true);
+  });
+
+  it("drains buffered frames after unsubscribe and releases once", async () => {
+    const { sub, released } = handle();
+    const iterator = sub[Symbol.asyncIterator]();
+    sub.dispatch(ticker("BTC-PERP", 1));
+    const pending = sub[Symbol.asyncIterator]().next();
+    sub.unsubscribe();
+    sub.unsubscribe();
+    sub.dispatch(ticker("BTC-PERP", 2));
+    expect(released).toEqual([sub]);
+    expect(sub.isActive()).toBe(false);
+    expect((await pending).done).toBe(true);
+    expect((await iterator.next()).value).toEqual(ticker("BTC-PERP", 1));
+    expect((await iterator.next()).done).toBe(true);
+  });
+});
+
+class FakeSocket {
+  static last?: FakeSocket;
+  sent: Array<{ op: string; args: unknown[] }> = [];
+  onopen?: () => void;
+  onmessage?: (event: { data: string }) => void;
+  onclose?: (event: { code: number; reason: string }) => void;
+  onerror?: (error: unknown) => void;
+
+  constructor(readonly url: string) {
+    FakeSocket.last = this;
+    setImmediate(() => this.onopen?.());
+  }
+
+  send(frame: string) {
+    this.sent.push(JSON.parse(frame));
+  }
+
+  close() {
+    this.onclose?.({ code: 1000, reason: "" });
+  }
+
+  receive(msg: unknown) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+}
+
+describe("WsClient subscriptions", () => {
+  const globals = globalThis as { WebSocket?: unknown };
+  const original = globals.WebSocket;
+
+  beforeEach(() => {
+    globals.WebSocket = FakeSocket;
+  });
+
+  afterEach(() => {
+    globals.WebSocket = original;
+  });
+
+  async function connect() {
+    const client = new WsClient({ url: "wss://example.test", heartbeatIntervalMs: 0 });
+    await client.connect();
+    return { client, socket: FakeSocket.last as FakeSocket };
+  }
+
+  it("routes frames to the handle for their symbol", async () => {
+    const { client, socket } = await connect();
+    const btc: unknown[] = [];
+    const eth: unknown[] = [];
+    client.subscribe({ channel: "ticker", symbol: "BTC-PERP" }).onMessage((m) => btc.push(m));
+    client.subscribe({ channel: "ticker", symbol: "ETH-PERP" }).onMessage((m) => eth.push(m));
+    socket.receive(ticker("ETH-PERP", 1));
+    socket.receive({ channel: "orderBook", data: { symbol: "BTC-PERP" } });
+    expect(btc).toEqual([]);
+    expect(eth).toEqual([ticker("ETH-PERP", 1)]);
+    client.close();
+  });
+
+  it("keeps the gateway subscription until the last handle is released", async () => {
+    const { client, socket } = await connect();
+    const params = { channel: "ticker", symbol: "BTC-PERP" };
+    const first = client.subscribe(params);
+    const second = client.subscribe(params);
+    const seen: unknown[] = [];
+    second.onMessage((m) => seen.push(m));
+    expect(socket.sent.filter((f) => f.op === "subscribe")).toHaveLength(1);
+
+    first.unsubscribe();
+    expect(socket.sent.some((f) => f.op === "unsubscribe")).toBe(false);
+    socket.receive(ticker("BTC-PERP", 1));
+    expect(seen).toHaveLength(1);
+
+    second.unsubscribe();
+    expect(socket.sent.filter((f) => f.op === "unsubscribe")).toEqual([
+      { op: "unsubscribe", args: [params] },
+    ]);
+    client.close();
+  });
+});
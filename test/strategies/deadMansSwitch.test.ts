@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "@jest/globals";
+import type { DipCoinPerpSDK } from "../../src/sdk";
+import {
+  DeadMansSwitch,
+  DeadMansSwitchHeartbeat,
+  DeadMansSwitchOptions,
+} from "../../src/strategies/deadMansSwitch";
+import { MemoryStateStore } from "../../src/strategies/stateStore";
+import { CancelOrderParams } from "../../src/types";
+
+// src/utils pulls in the Sui SDK; the switch only needs formatError from it
+jest.mock("../../src/utils", () => ({ formatError: (error: unknown) => String(error) }));
+
+const openOrders = [
+  { symbol: "BTC-PERP", hash: "0xb1" },
+  { symbol: "ETH-PERP", hash: "0xe1" },
+  { symbol: "BTC-PERP", hash: "0xb2" },
+  { symbol: "BTC-PERP" },
+];
+
+function fakeSdk() {
+  const cancels: CancelOrderParams[][] = [];
+  const flattens: unknown[] = [];
+  const openOrderCalls: Array<string | undefined> = [];
+  const sdk = {
+    getOpenOrders: async (_symbol?: string, parentAddress?: string) => {
+      openOrderCalls.push(parentAddress);
+      return { status: true, data: openOrders };
+    },
+    cancelOrders: async (params: CancelOrderParams[]) => {
+      cancels.push(params);
+      return { status: true, data: { results: [] } };
+    },
+    flattenAll: async (params: unknown) => {
+      flattens.push(params);
+      return { status: true, data: { closed: [] } };
+    },
+  };
+  return { sdk: sdk as unknown as DipCoinPerpSDK, cancels, flattens, openOrderCalls };
+}
+
+// setImmediate stays real so pending checks can be flushed between timer steps
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+async function advance(ms: number): Promise<void> {
+  jest.advanceTimersByTime(ms);
+  await flush();
+}
+
+const options: DeadMansSwitchOptions = { timeoutMs: 1000, checkIntervalMs: 100 };
+
+describe("DeadMansSwitch", () => {
+  let dms: DeadMansSwitch | undefined;
+
+  beforeEach(() => {
+    // The performance global is read-only on recent Node versions
+    jest.useFakeTimers({ doNotFake: ["setImmediate", "performance"] });
+    jest.setSystemTime(1_000_000);
+  });
+
+  afterEach(() => {
+    dms?.stop();
+    dms = undefined;
+    jest.useRealTimers();
+  });
+
+  it("fires once the deadline passes without a heartbeat", async () => {
+    const { sdk, cancels } = fakeSdk();
+    dms = new DeadMansSwitch(sdk, options);
+    const fired = jest.fn();
+    dms.onTrigger(fired);
+    await dms.start();
+    expect(dms.getState()).toMatchObject({ status: "armed", deadline: 1_001_000 });
+
+    await advance(900);
+    expect(dms.getState().status).toBe("armed");
+    expect(cancels).toHaveLength(0);
+
+    await advance(100);
+    expect(dms.getState().status).toBe("triggered");
+    expect(fired).toHaveBeenCalledTimes(1);
+    expect(cancels).toHaveLength(1);
+
+    // A fired switch stays fired
+    await advance(1000);
+    expect(fired).toHaveBeenCalledTimes(1);
+  });
+
+  it("re-arms on heartbeat()", async () => {
+    const { sdk, cancels } = fakeSdk();
+    dms = new DeadMansSwitch(sdk, options);
+    await dms.start();
+
+    await advance(800);
+    await dms.heartbeat();
+    expect(dms.getState().deadline).toBe(1_001_800);
+    expect(dms.msUntilTrigger()).toBe(1000);
+
+    await advance(900);
+    expect(dms.getState().status).toBe("armed");
+    expect(cancels).toHaveLength(0);
+
+    await advance(100);
+    expect(dms.getState().status).toBe("triggered");
+  });
+
+  it("re-arms a fired switch on a newer heartbeat in the store", async () => {
+    const { sdk, cancels } = fakeSdk();
+    const heartbeatStore = new MemoryStateStore<DeadMansSwitchHeartbeat>();
+    dms = new DeadMansSwitch(sdk, { ...options, heartbeatStore });
+    await dms.start();
+
+    await advance(1000);
+    expect(dms.getState().status).toBe("triggered");
+
+    // The application process heartbeats through the shared store
+    await advance(500);
+    await heartbeatStore.save({ lastHeartbeat: Date.now() });
+    await advance(100);
+    expect(dms.getState()).toMatchObject({
+      status: "armed",
+      lastHeartbeat: 1_001_500,
+      deadline: 1_002_500,
+    });
+
+    await advance(1000);
+    expect(dms.getState().status).toBe("triggered");
+    expect(cancels).toHaveLength(2);
+  });
+
+  it("cancels only the open orders of the target symbols", async () => {
+    const { sdk, cancels, openOrderCalls } = fakeSdk();
+    dms = new DeadMansSwitch(sdk, {
+      ...options,
+      targets: [{ parentAddress: "0xvault", symbols: ["BTC-PERP"] }],
+    });
+    const state = await dms.trigger();
+
+    expect(openOrderCalls).toEqual(["0xvault"]);
+    expect(cancels).toEqual([
+      [{ symbol: "BTC-PERP", orderHashes: ["0xb1", "0xb2"], parentAddress: "0xvault" }],
+    ]);
+    expect(state.reports).toEqual([
+      { parentAddress: "0xvault", cancelled: { results: [] }, error: undefined },
+    ]);
+  });
+
+  it("flattens through flattenAll with closePositions", async () => {
+    const { sdk, cancels, flattens, openOrderCalls } = fakeSdk();
+    dms = new DeadMansSwitch(sdk, {
+      ...options,
+      closePositions: true,
+      maxSlippage: 0.02,
+      targets: [{ symbols: ["ETH-PERP"] }, { parentAddress: "0xvault" }],
+    });
+    await dms.start();
+    await advance(1000);
+
+    expect(flattens).toEqual([
+      { parentAddress: undefined, symbols: ["ETH-PERP"], maxSlippage: 0.02 },
+      { parentAddress: "0xvault", symbols: undefined, maxSlippage: 0.02 },
+    ]);
+    expect(openOrderCalls).toHaveLength(0);
+    expect(cancels).toHaveLength(0);
+    expect(dms.getState().reports?.map((r) => r.flattened)).toEqual([
+      { closed: [] },
+      { closed: [] },
+    ]);
+  });
+});
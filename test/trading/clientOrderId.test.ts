@@ -0,0 +1,60 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  ClientOrderRegistry,
+  extractOrderHash,
+  generateClientOrderId,
+} from "../../src/trading/clientOrderId";
+
+describe("generateClientOrderId", () => {
+  it("generates distinct dc- prefixed ids", () => {
+    const a = generateClientOrderId();
+    const b = generateClientOrderId();
+    expect(a).toMatch(/^dc-[0-9a-z]+-[0-9a-z]{12}$/);
+    expect(a).not.toBe(b);
+  });
+});
+
+describe("extractOrderHash", () => {
+  it("reads the hash from the response shapes the backend returns", () => {
+    expect(extractOrderHash("0xabc")).toBe("0xabc");
+    expect(extractOrderHash("ok")).toBeUndefined();
+    expect(extractOrderHash({ hash: "0x1" })).toBe("0x1");
+    expect(extractOrderHash({ orderHash: "0x2" })).toBe("0x2");
+    expect(extractOrderHash({ data: { data: "0x3" } })).toBe("0x3");
+    expect(extractOrderHash(undefined)).toBeUndefined();
+  });
+});
+
+describe("ClientOrderRegistry", () => {
+  const record = (clientId: string, orderHash?: string) => ({
+    clientId,
+    symbol: "BTC-PERP",
+    orderHash,
+    createdAt: 0,
+  });
+
+  it("indexes records by clientId and (case-insensitive) hash", () => {
+    const registry = new ClientOrderRegistry();
+    registry.register(record("a", "0xAB"));
+    expect(registry.get("a")?.orderHash).toBe("0xAB");
+    expect(registry.getClientId("0xab")).toBe("a");
+  });
+
+  it("moves the reverse index when the hash changes", () => {
+    const registry = new ClientOrderRegistry();
+    registry.register(record("a"));
+    registry.attachHash("a", "0x1");
+    registry.attachHash("a", "0x2");
+    expect(registry.getClientId("0x1")).toBeUndefined();
+    expect(registry.getClientId("0x2")).toBe("a");
+  });
+
+  it("evicts the oldest records beyond maxEntries", () => {
+    const registry = new ClientOrderRegistry(2);
+    registry.register(record("a", "0x1"));
+    registry.register(record("b", "0x2"));
+    registry.register(record("c", "0x3"));
+    expect(registry.list().map((r) => r.clientId)).toEqual(["b", "c"]);
+    expect(registry.getClientId("0x1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "@jest/globals";
+import BigNumber from "bignumber.js";
+import {
+  bookMidPrice,
+  estimateExecutionFromBook,
+  maxQuantityWithinSlippage,
+} from "../../src/trading/executionEstimate";
+import { OrderBook, OrderSide } from "../../src/types";
+
+const book: OrderBook = {
+  bids: [
+    { price: "99", quantity: "1" },
+    { price: "98", quantity: "2" },
+  ],
+  asks: [
+    { price: "101", quantity: "1" },
+    { price: "102", quantity: "2" },
+    { price: "110", quantity: "5" },
+  ],
+};
+
+describe("bookMidPrice", () => {
+  it("averages the best bid and ask", () => {
+    expect(bookMidPrice(book)?.toString(10)).toBe("100");
+  });
+
+  it("falls back to the only side present", () => {
+    expect(bookMidPrice({ bids: [], asks: book.asks })?.toString(10)).toBe("101");
+    expect(bookMidPrice({ bids: [], asks: [] })).toBeUndefined();
+  });
+});
+
+describe("estimateExecutionFromBook", () => {
+  it("walks the asks for a BUY", () => {
+    const estimate = estimateExecutionFromBook(book, OrderSide.BUY, "2", "0.001");
+    expect(estimate).toMatchObject({
+      filledQuantity: "2",
+      unfilledQuantity: "0",
+      fullyFilled: true,
+      averagePrice: "101.5",
+      worstPrice: "102",
+      midPrice: "100",
+      slippageBps: "150.00",
+      notional: "203",
+      takerFee: "0.203",
+      levelsConsumed: 2,
+    });
+  });
+
+  it("walks the bids for a SELL", () => {
+    const estimate = estimateExecutionFromBook(book, OrderSide.SELL, "3");
+    expect(estimate.averagePrice).toBe(new BigNumber(295).dividedBy(3).toString(10));
+    expect(estimate.worstPrice).toBe("98");
+    expect(estimate.takerFee).toBe("0");
+  });
+
+  it("reports the unfilled remainder when depth runs out", () => {
+    const estimate = estimateExecutionFromBook(book, OrderSide.SELL, "5");
+    expect(estimate.fullyFilled).toBe(false);
+    expect(estimate.filledQuantity).toBe("3");
+    expect(estimate.unfilledQuantity).toBe("2");
+  });
+
+  it("rejects a non-positive quantity", () => {
+    expect(() => estimateExecutionFromBook(book, OrderSide.BUY, "0")).toThrow(/quantity/);
+  });
+});
+
+describe("maxQuantityWithinSlippage", () => {
+  it("sums levels within the tolerance from mid", () => {
+    expect(maxQuantityWithinSlippage(book, OrderSide.BUY, 100).toString(10)).toBe("1");
+    expect(maxQuantityWithinSlippage(book, OrderSide.BUY, 200).toString(10)).toBe("3");
+    expect(maxQuantityWithinSlippage(book, OrderSide.SELL, 200).toString(10)).toBe("3");
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  isMultipleOf,
+  snapToIncrement,
+  validateOrderAgainstSpec,
+  validatePriceAgainstSpec,
+  validateQuantityAgainstSpec,
+} from "../../src/trading/orderValidation";
+import { MarketSpec, OrderType } from "../../src/types";
+
+const spec: MarketSpec = {
+  symbol: "BTC-PERP",
+  tickSize: "0.5",
+  stepSize: "0.001",
+  minTradeQty: "0.001",
+  maxTradeQtyLimit: "100",
+  maxTradeQtyMarket: "10",
+  minOrderPrice: "1",
+  maxOrderPrice: "1000000",
+  initialMarginReq: "0.05",
+  maintenanceMarginReq: "0.03",
+  defaultMakerFee: "0.0002",
+  defaultTakerFee: "0.0005",
+  maxLeverage: "20",
+  maxAllowedOIOpen: [],
+};
+
+describe("snapToIncrement", () => {
+  it("snaps in the requested direction", () => {
+    expect(snapToIncrement("100.3", "0.5", "floor")).toBe("100");
+    expect(snapToIncrement("100.3", "0.5", "ceil")).toBe("100.5");
+    expect(snapToIncrement("100.25", "0.5", "nearest")).toBe("100.5");
+  });
+
+  it("leaves the value unchanged for a zero increment", () => {
+    expect(snapToIncrement("1.2345", "0", "floor")).toBe("1.2345");
+  });
+});
+
+describe("isMultipleOf", () => {
+  it("checks exact multiples without float error", () => {
+    expect(isMultipleOf("0.3", "0.1")).toBe(true);
+    expect(isMultipleOf("0.35", "0.1")).toBe(false);
+    expect(isMultipleOf("0.35", "")).toBe(true);
+  });
+});
+
+describe("validateQuantityAgainstSpec", () => {
+  it("rejects an off-step quantity by default", () => {
+    const result = validateQuantityAgainstSpec("quantity", "0.0015", spec, OrderType.LIMIT);
+    expect(result.issues.map((i) => i.code)).toEqual(["QUANTITY_STEP"]);
+  });
+
+  it("rounds onto the step grid when asked", () => {
+    const result = validateQuantityAgainstSpec(
+      "quantity",
+      "0.0015",
+      spec,
+      OrderType.LIMIT,
+      "floor"
+    );
+    expect(result).toEqual({ value: "0.001", issues: [] });
+  });
+
+  it("reports a quantity that rounds below the minimum", () => {
+    const result = validateQuantityAgainstSpec(
+      "quantity",
+      "0.0005",
+      spec,
+      OrderType.LIMIT,
+      "floor"
+    );
+    expect(result.value).toBe("0");
+    expect(result.issues.map((i) => i.code)).toContain("QUANTITY_BELOW_MIN");
+  });
+
+  it("uses the MARKET or LIMIT maximum by order type", () => {
+    expect(validateQuantityAgainstSpec("quantity", "50", spec, OrderType.LIMIT).issues).toEqual([]);
+    const market = validateQuantityAgainstSpec("quantity", "50", spec, OrderType.MARKET);
+    expect(market.issues[0]).toMatchObject({ code: "QUANTITY_ABOVE_MAX", limit: "10" });
+  });
+
+  it("rejects missing and non-positive quantities", () => {
+    expect(validateQuantityAgainstSpec("quantity", "", spec, OrderType.LIMIT).issues[0].code).toBe(
+      "INVALID_QUANTITY"
+    );
+    expect(validateQuantityAgainstSpec("quantity", -1, spec, OrderType.LIMIT).issues[0].code).toBe(
+      "INVALID_QUANTITY"
+    );
+  });
+});
+
+describe("validatePriceAgainstSpec", () => {
+  it("checks tick size and the price band", () => {
+    expect(validatePriceAgainstSpec("price", "100.3", spec).issues[0].code).toBe("PRICE_TICK");
+    expect(validatePriceAgainstSpec("price", "100.3", spec, "nearest")).toEqual({
+      value: "100.5",
+      issues: [],
+    });
+    expect(validatePriceAgainstSpec("price", "0.5", spec).issues[0].code).toBe("PRICE_BELOW_MIN");
+    expect(validatePriceAgainstSpec("price", "2000000", spec).issues[0].code).toBe(
+      "PRICE_ABOVE_MAX"
+    );
+  });
+});
+
+describe("validateOrderAgainstSpec", () => {
+  it("accepts a valid LIMIT order", () => {
+    const result = validateOrderAgainstSpec(
+      { orderType: OrderType.LIMIT, quantity: "1", price: "50000", leverage: 10 },
+      spec
+    );
+    expect(result).toEqual({ valid: true, issues: [], quantity: "1", price: "50000" });
+  });
+
+  it("does not check the price of a MARKET order", () => {
+    const result = validateOrderAgainstSpec({ orderType: OrderType.MARKET, quantity: "1" }, spec);
+    expect(result.valid).toBe(true);
+    expect(result.price).toBeUndefined();
+  });
+
+  it("collects every issue, including the leverage cap", () => {
+    const result = validateOrderAgainstSpec(
+      { orderType: OrderType.LIMIT, quantity: "0.0015", price: "100.3", leverage: 50 },
+      spec
+    );
+    expect(result.valid).toBe(false);
+    expect(result.issues.map((i) => i.code).sort()).toEqual(
+      ["LEVERAGE_ABOVE_MAX", "PRICE_TICK", "QUANTITY_STEP"].sort()
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "@jest/globals";
+import { RiskCalculator } from "../../src/trading/riskCalculator";
+import { MarketSpec, OrderSide } from "../../src/types";
+
+const spec: MarketSpec = {
+  symbol: "BTC-PERP",
+  tickSize: "0.1",
+  stepSize: "0.001",
+  minTradeQty: "0.001",
+  maxTradeQtyLimit: "100",
+  maxTradeQtyMarket: "10",
+  minOrderPrice: "1",
+  maxOrderPrice: "1000000",
+  initialMarginReq: "0.05",
+  maintenanceMarginReq: "0.03",
+  defaultMakerFee: "0.0002",
+  defaultTakerFee: "0.0005",
+  maxLeverage: "50",
+  maxAllowedOIOpen: [],
+};
+
+const calc = new RiskCalculator(spec);
+
+describe("RiskCalculator", () => {
+  it("caps leverage by the initial margin requirement", () => {
+    expect(calc.effectiveLeverage(10).toString(10)).toBe("10");
+    expect(calc.effectiveLeverage(50).toString(10)).toBe("20");
+    expect(() => calc.effectiveLeverage(0)).toThrow(/leverage/);
+  });
+
+  it("computes initial margin and taker fee", () => {
+    expect(calc.initialMargin("1", "100", 10).toString(10)).toBe("10");
+    expect(calc.takerFee("2", "100").toString(10)).toBe("0.1");
+  });
+
+  it("computes isolated liquidation prices", () => {
+    const long = { isLong: true, quantity: "1", entryPrice: "100", margin: "10" };
+    const short = { isLong: false, quantity: "1", entryPrice: "100", margin: "10" };
+    expect(calc.liquidationPrice(long)?.toFixed(4)).toBe("92.7835");
+    expect(calc.liquidationPrice(short)?.toFixed(4)).toBe("106.7961");
+    expect(calc.liquidationPrice({ ...long, margin: "200" })?.toString(10)).toBe("0");
+    expect(calc.liquidationPrice({ ...long, quantity: "0" })).toBeUndefined();
+  });
+
+  it("sizes orders to free collateral, the step size and the type cap", () => {
+    expect(calc.maxOrderSize("1000", "100", 10).toString(10)).toBe("99.502");
+    expect(calc.maxOrderSize("1000", "100", 10, true).toString(10)).toBe("10");
+    expect(calc.maxOrderSize("0", "100", 10).toString(10)).toBe("0");
+  });
+
+  describe("resultingPosition", () => {
+    const position = { isLong: true, quantity: "2", entryPrice: "100", margin: "20" };
+
+    it("blends the entry of a same-side order", () => {
+      const result = calc.resultingPosition(
+        { side: OrderSide.BUY, quantity: "2", price: "110", leverage: 10, position },
+        10
+      );
+      expect(result.position).toEqual({
+        isLong: true,
+        quantity: "4",
+        entryPrice: "105",
+        margin: "42",
+      });
+      expect(result.openingQuantity.toString(10)).toBe("2");
+    });
+
+    it("reduces pro rata and closes on an equal opposite order", () => {
+      const reduced = calc.resultingPosition(
+        { side: OrderSide.SELL, quantity: "1", price: "110", leverage: 10, position },
+        10
+      );
+      expect(reduced.position).toEqual({
+        isLong: true,
+        quantity: "1",
+        entryPrice: "100",
+        margin: "10",
+      });
+      expect(reduced.openingQuantity.isZero()).toBe(true);
+
+      const closed = calc.resultingPosition(
+        { side: OrderSide.SELL, quantity: "2", price: "110", leverage: 10, position },
+        10
+      );
+      expect(closed.position).toBeNull();
+    });
+
+    it("flips the position on a larger opposite order", () => {
+      const result = calc.resultingPosition(
+        { side: OrderSide.SELL, quantity: "3", price: "110", leverage: 10, position },
+        10
+      );
+      expect(result.position).toEqual({
+        isLong: false,
+        quantity: "1",
+        entryPrice: "110",
+        margin: "11",
+      });
+      expect(result.openingQuantity.toString(10)).toBe("1");
+    });
+  });
+
+  it("previews margin, fee and collateral sufficiency", () => {
+    const preview = calc.preview({
+      side: OrderSide.BUY,
+      quantity: "1",
+      price: "100",
+      leverage: 10,
+      freeCollateral: "5",
+    });
+    expect(preview).toMatchObject({
+      notional: "100",
+      initialMargin: "10",
+      fee: "0.05",
+      requiredMargin: "10.05",
+      sufficientCollateral: false,
+      maxOrderSize: "0.497",
+    });
+    expect(preview.resultingPosition?.liquidationPrice).toBeDefined();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "@jest/globals";
+import { buildScaledLevels, scaledWeights } from "../../src/trading/scaledOrders";
+import { OrderSide, ScaledOrderParams } from "../../src/types";
+
+const spec = { tickSize: "0.5", stepSize: "0.01", minTradeQty: "0.01" };
+
+const ladder = (overrides: Partial<ScaledOrderParams>): ScaledOrderParams => ({
+  symbol: "BTC-PERP",
+  side: OrderSide.BUY,
+  totalQuantity: "1",
+  priceFrom: "100",
+  priceTo: "104",
+  count: 5,
+  distribution: "linear",
+  leverage: 5,
+  ...overrides,
+});
+
+describe("scaledWeights", () => {
+  it("builds geometric weights with the given ratio", () => {
+    expect(scaledWeights({ count: 3, distribution: "geometric", ratio: 2 })).toEqual([1, 2, 4]);
+  });
+
+  it("validates custom weights", () => {
+    expect(scaledWeights({ count: 2, distribution: "custom", weights: [1, 3] })).toEqual([1, 3]);
+    expect(() => scaledWeights({ count: 3, distribution: "custom", weights: [1] })).toThrow(
+      /3 weights/
+    );
+    expect(() => scaledWeights({ count: 2, distribution: "custom", weights: [0, 0] })).toThrow();
+  });
+});
+
+describe("buildScaledLevels", () => {
+  it("spaces prices evenly and splits the quantity", () => {
+    expect(buildScaledLevels(ladder({}), spec)).toEqual([
+      { price: "100", quantity: "0.2" },
+      { price: "101", quantity: "0.2" },
+      { price: "102", quantity: "0.2" },
+      { price: "103", quantity: "0.2" },
+      { price: "104", quantity: "0.2" },
+    ]);
+  });
+
+  it("snaps prices to the tick and merges levels on the same price", () => {
+    const levels = buildScaledLevels(ladder({ priceTo: "100.6", count: 4 }), spec);
+    expect(levels).toEqual([
+      { price: "100", quantity: "0.5" },
+      { price: "100.5", quantity: "0.5" },
+    ]);
+  });
+
+  it("follows a geometric distribution", () => {
+    const levels = buildScaledLevels(
+      ladder({
+        count: 3,
+        priceTo: "102",
+        distribution: "geometric",
+        ratio: 2,
+        totalQuantity: "0.7",
+      }),
+      spec
+    );
+    expect(levels.map((l) => l.quantity)).toEqual(["0.1", "0.2", "0.4"]);
+  });
+
+  it("rejects invalid prices and counts", () => {
+    expect(() => buildScaledLevels(ladder({ priceFrom: "0" }), spec)).toThrow(/priceFrom/);
+    expect(() => buildScaledLevels(ladder({ count: 0 }), spec)).toThrow(/count/);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "@jest/globals";
+import BigNumber from "bignumber.js";
+import { allocateSlices, randomDisplayQuantity } from "../../src/trading/slicing";
+
+const sum = (values: string[]) => values.reduce((a, b) => a.plus(b), new BigNumber(0)).toString(10);
+
+describe("allocateSlices", () => {
+  it("splits evenly on the step grid and gives leftovers to the heaviest slice", () => {
+    const slices = allocateSlices("1", [1, 1, 1], "0.001");
+    expect(slices).toEqual(["0.334", "0.333", "0.333"]);
+    expect(sum(slices)).toBe("1");
+  });
+
+  it("follows the weights", () => {
+    expect(allocateSlices("10", [1, 3, 0, 1], "1")).toEqual(["2", "6", "0", "2"]);
+  });
+
+  it("falls back to an even split without usable weights", () => {
+    expect(allocateSlices("4", [0, Number.NaN], "1")).toEqual(["2", "2"]);
+  });
+
+  it("folds slices below the minimum trade quantity forward", () => {
+    const slices = allocateSlices("0.5", [1, 1, 1, 1, 1], "0.1", "0.2");
+    expect(slices.every((s) => new BigNumber(s).isZero() || new BigNumber(s).gte("0.2"))).toBe(
+      true
+    );
+    expect(sum(slices)).toBe("0.5");
+    expect(slices).toHaveLength(5);
+  });
+
+  it("rejects a total below the minimum", () => {
+    expect(() => allocateSlices("0.1", [1], "0.1", "0.2")).toThrow(/minimum/);
+  });
+});
+
+describe("randomDisplayQuantity", () => {
+  it("picks a size between min and max on the step grid", () => {
+    expect(randomDisplayQuantity("1", "2", "10", "0.1", 0, () => 0.5)).toBe("1.5");
+    expect(randomDisplayQuantity("1", "2", "10", "0.1", 0, () => 0)).toBe("1");
+  });
+
+  it("never exceeds the remaining quantity", () => {
+    expect(randomDisplayQuantity("1", "2", "0.5", "0.1", 0, () => 1)).toBe("0.5");
+  });
+
+  it("includes an untradeable leftover in the current child", () => {
+    expect(randomDisplayQuantity("1", "1", "1.05", "0.01", "0.1", () => 0)).toBe("1.05");
+  });
+});
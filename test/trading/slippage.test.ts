@@ -0,0 +1,33 @@
+import { describe, expect, it } from "@jest/globals";
+import { DEFAULT_SLIPPAGE } from "../../src/constants";
+import { computeProtectivePrice, resolveMaxSlippage } from "../../src/trading/slippage";
+import { OrderSide } from "../../src/types";
+
+describe("resolveMaxSlippage", () => {
+  it("maps true to the default", () => {
+    expect(resolveMaxSlippage(true)).toBe(DEFAULT_SLIPPAGE);
+    expect(resolveMaxSlippage(0.02)).toBe(0.02);
+  });
+
+  it("rejects values outside (0, 1)", () => {
+    expect(() => resolveMaxSlippage(0)).toThrow();
+    expect(() => resolveMaxSlippage(1)).toThrow();
+    expect(() => resolveMaxSlippage(Number.NaN)).toThrow();
+  });
+});
+
+describe("computeProtectivePrice", () => {
+  it("moves away from the reference by the slippage", () => {
+    expect(computeProtectivePrice("100", OrderSide.BUY, 0.01)).toBe("101");
+    expect(computeProtectivePrice("100", OrderSide.SELL, 0.01)).toBe("99");
+  });
+
+  it("snaps towards the reference so the tolerance is not exceeded", () => {
+    expect(computeProtectivePrice("100", OrderSide.BUY, 0.013, "0.5")).toBe("101");
+    expect(computeProtectivePrice("100", OrderSide.SELL, 0.013, "0.5")).toBe("99");
+  });
+
+  it("rejects a missing reference price", () => {
+    expect(() => computeProtectivePrice("0", OrderSide.BUY, 0.01)).toThrow(/Reference price/);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "@jest/globals";
+import { bookCoversQuantity, resolveTimeInForce } from "../../src/trading/timeInForce";
+import { OrderSide, OrderType } from "../../src/types";
+
+describe("resolveTimeInForce", () => {
+  it("defaults to GTC", () => {
+    expect(resolveTimeInForce(undefined, OrderType.LIMIT)).toEqual({
+      postOnly: false,
+      ioc: false,
+      expiration: 0,
+      requiresFullFill: false,
+    });
+  });
+
+  it("maps IOC and FOK onto the ioc flag", () => {
+    expect(resolveTimeInForce("IOC", OrderType.MARKET)).toMatchObject({
+      ioc: true,
+      requiresFullFill: false,
+    });
+    expect(resolveTimeInForce("FOK", OrderType.LIMIT)).toMatchObject({
+      ioc: true,
+      requiresFullFill: true,
+    });
+  });
+
+  it("only allows POST_ONLY on LIMIT orders", () => {
+    expect(resolveTimeInForce("POST_ONLY", OrderType.LIMIT).postOnly).toBe(true);
+    expect(() => resolveTimeInForce("POST_ONLY", OrderType.MARKET)).toThrow(/LIMIT/);
+  });
+
+  it("requires a future expiration for GTD", () => {
+    expect(resolveTimeInForce("GTD", OrderType.LIMIT, 2_000, 1_000).expiration).toBe(2_000);
+    expect(() => resolveTimeInForce("GTD", OrderType.LIMIT, 500, 1_000)).toThrow(/expiration/);
+    expect(() => resolveTimeInForce("GTD", OrderType.LIMIT, undefined, 1_000)).toThrow(
+      /expiration/
+    );
+  });
+});
+
+describe("bookCoversQuantity", () => {
+  const asks = [
+    { price: "100", quantity: "1" },
+    { price: "101", quantity: "2" },
+    { price: "103", quantity: "5" },
+  ];
+
+  it("sums depth across levels", () => {
+    expect(bookCoversQuantity(asks, OrderSide.BUY, "3")).toBe(true);
+    expect(bookCoversQuantity(asks, OrderSide.BUY, "9")).toBe(false);
+  });
+
+  it("stops at the limit price", () => {
+    expect(bookCoversQuantity(asks, OrderSide.BUY, "3", "101")).toBe(true);
+    expect(bookCoversQuantity(asks, OrderSide.BUY, "4", "102")).toBe(false);
+  });
+
+  it("walks bids downwards for a SELL", () => {
+    const bids = [
+      { price: "99", quantity: "1" },
+      { price: "98", quantity: "1" },
+    ];
+    expect(bookCoversQuantity(bids, OrderSide.SELL, "2", "98")).toBe(true);
+    expect(bookCoversQuantity(bids, OrderSide.SELL, "2", "99")).toBe(false);
+  });
+});